@@ -2,14 +2,17 @@
 import '@angular/compiler';
 import { bootstrapApplication } from '@angular/platform-browser';
 import { provideHttpClient } from '@angular/common/http';
-import { provideZonelessChangeDetection } from '@angular/core';
+import { inject, provideAppInitializer, provideZonelessChangeDetection } from '@angular/core';
 
 import { AppComponent } from './src/app.component';
+import { StorageService } from './src/services/storage.service';
 
 bootstrapApplication(AppComponent, {
   providers: [
     provideZonelessChangeDetection(),
     provideHttpClient(),
+    // Saved data is loaded before anything reads it
+    provideAppInitializer(() => inject(StorageService).init()),
   ],
 }).catch(err => console.error(err));
 
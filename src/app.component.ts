@@ -1,9 +1,9 @@
 
 
 
-import { ChangeDetectionStrategy, Component, signal, computed } from '@angular/core';
+import { ChangeDetectionStrategy, Component, signal, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ChatComponent, ChatInitialState, SessionStats } from './components/chat/chat.component';
+import { ChatComponent, ChatInitialState, SessionStart, SessionStats } from './components/chat/chat.component';
 import { SplashScreenComponent } from './components/splash-screen/splash-screen.component';
 import { LandingComponent } from './components/landing/landing.component';
 import { LevelUpComponent } from './components/level-up/level-up.component';
@@ -11,9 +11,25 @@ import { Scenario } from './components/scenario-selection/scenario-selection.com
 import { GrammarTopic } from './components/grammar-selection/grammar-selection.component';
 import { AchievementsComponent } from './components/achievements/achievements.component';
 import { AchievementToastComponent } from './components/achievement-toast/achievement-toast.component';
+import { CredentialsComponent } from './components/credentials/credentials.component';
+import { FlashcardSessionComponent } from './components/flashcard-session/flashcard-session.component';
+import { SessionHistoryComponent } from './components/session-history/session-history.component';
+import { ProgressDashboardComponent } from './components/progress-dashboard/progress-dashboard.component';
+import { MistakeLogComponent } from './components/mistake-log/mistake-log.component';
+import { TextImportComponent } from './components/text-import/text-import.component';
+import { BackupComponent } from './components/backup/backup.component';
+import { ProfilePickerComponent } from './components/profile-picker/profile-picker.component';
+import { GeminiService, TUTOR_JSON_INSTRUCTION } from './services/gemini.service';
+import { CredentialsService } from './services/credentials.service';
+import { UsageService } from './services/usage.service';
+import { VocabularyService } from './services/vocabulary.service';
+import { STORAGE_ISSUE_MESSAGES, StorageService } from './services/storage.service';
+import { SessionCheckpoint, SessionCheckpointService } from './services/session-checkpoint.service';
+import { LoggedMistake, MistakeLogService } from './services/mistake-log.service';
+import { DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL, LlmProviderId, LlmTask, LlmTaskSettings } from './services/llm-provider';
 
 // --- Global Interfaces ---
-interface UserProgress {
+export interface UserProgress {
   levelIndex: number;
   xp: number;
   // Gamification
@@ -31,6 +47,12 @@ interface UserProgress {
 export interface UserSettings {
   speakingRate: number; // 0.75 (slow), 1 (normal), 1.5 (fast)
   tutorName: string;
+  llmProvider: LlmProviderId;
+  llmModel: string;
+  llmBaseUrl: string; // OpenAI-compatible servers only
+  llmTasks: Partial<Record<LlmTask, LlmTaskSettings>>; // Per-task model and parameter overrides
+  dailyRequestCap: number; // 0 = no cap
+  dailyTokenCap: number;   // 0 = no cap
 }
 
 export interface Tutor {
@@ -57,43 +79,56 @@ export interface ListeningExercise {
   openingPrompt: string;
 }
 
+/** A French text the learner pasted in, for the follow-up conversation about it. */
+export interface ReadingText {
+  title: string;
+  text: string;
+}
+
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [CommonModule, ChatComponent, SplashScreenComponent, LandingComponent, LevelUpComponent, AchievementsComponent, AchievementToastComponent],
+  imports: [CommonModule, ChatComponent, SplashScreenComponent, LandingComponent, LevelUpComponent, AchievementsComponent, AchievementToastComponent, CredentialsComponent, FlashcardSessionComponent, SessionHistoryComponent, ProgressDashboardComponent, MistakeLogComponent, TextImportComponent, BackupComponent, ProfilePickerComponent],
 })
 export class AppComponent {
-  appState = signal<'splash' | 'landing' | 'chat'>('splash');
+  private geminiService = inject(GeminiService);
+  private credentialsService = inject(CredentialsService);
+  private usageService = inject(UsageService);
+  private vocabularyService = inject(VocabularyService);
+  private storageService = inject(StorageService);
+  private sessionCheckpointService = inject(SessionCheckpointService);
+  private mistakeLogService = inject(MistakeLogService);
+
+  appState = signal<'splash' | 'profiles' | 'landing' | 'chat' | 'flashcards' | 'history' | 'progress' | 'mistakes'>('splash');
   initialChatState = signal<ChatInitialState | null>(null);
+  resumeCheckpoint = signal<SessionCheckpoint | null>(null);
+  // A session that was cut off by a reload or crash, offered once the learner is known
+  interruptedSession = signal<SessionCheckpoint | null>(null);
 
   // --- User Progress State ---
-  userProgress = signal<UserProgress>({
-    levelIndex: 0,
-    xp: 0,
-    lastSessionDate: null,
-    currentStreak: 0,
-    unlockedAchievements: [],
-    stats: {
-      sessionsCompleted: 0,
-      wordsSaved: 0,
-      scenariosCompleted: [],
-      grammarCompleted: [],
-    }
-  });
+  userProgress = signal<UserProgress>(this.defaultProgress());
   showLevelUp = signal(false);
   justLeveledUpTo = signal<string | null>(null);
 
   // --- User Settings State ---
-  userSettings = signal<UserSettings>({ speakingRate: 1, tutorName: 'Ami' });
+  userSettings = signal<UserSettings>(this.defaultSettings());
+  activeProfile = this.storageService.activeProfile;
 
   // --- Gamification State ---
   showAchievements = signal(false);
   showAchievementToast = signal(false);
   justUnlockedAchievement = signal<Achievement | null>(null);
 
-  private readonly PROGRESS_STORAGE_KEY = 'french-companion-progress';
-  private readonly SETTINGS_STORAGE_KEY = 'french-companion-settings';
+  showCredentials = signal(false);
+  showTextImport = signal(false);
+  showBackup = signal(false);
+
+  /** The last storage problem, if any, with the message to show the learner. */
+  storageIssue = computed(() => {
+    const issue = this.storageService.issue();
+    return issue ? STORAGE_ISSUE_MESSAGES[issue.kind] : null;
+  });
   
   private readonly levels = [
     { name: 'Beginner I', xpThreshold: 0 },
@@ -106,19 +141,6 @@ export class AppComponent {
     { name: 'Advanced II', xpThreshold: 3000 },
     { name: 'Fluent', xpThreshold: 5000 },
   ];
-
-  private static readonly jsonInstruction = `
-IMPORTANT: Your response MUST be a JSON object.
-The JSON object must have the following properties:
-1. "response": A string containing your conversational reply in French.
-2. "vocabulary": An array of JSON objects. Each object represents a key vocabulary word from your response that would be useful for a learner. For each vocabulary word, provide "word" (French), "translation" (English), and "example" (French sentence). If no new words, use an empty array.
-3. "pronunciationFeedback": (Optional) An object providing feedback on the user's pronunciation based on their most recent message. If feedback is not applicable (e.g., first message, unintelligible input), omit this property. The object must contain:
-   - "score": An integer from 1 to 5, where 1 is poor and 5 is excellent.
-   - "feedback": A short, constructive string explaining what was good and what could be improved.
-   - "tip": A single, practical tip for improvement.
-4. "microLessonSuggestion": (Optional) If you detect that the user is making the same grammatical mistake multiple times (at least 2-3 times), suggest a micro-lesson. Do NOT suggest a lesson after only one mistake. The object must contain:
-   - "topic": A string that EXACTLY matches the title of one of these available grammar topics: 'Present Tense (Le Présent)', 'Gender of Nouns (Le Genre)', 'Past Tense (Le Passé Composé)'.
-   - "reason": A short, friendly string in English explaining why you're suggesting this lesson.`;
   
   // --- Data for child components ---
   readonly tutors: Tutor[] = [
@@ -130,7 +152,7 @@ The JSON object must have the following properties:
 Your goal is to help me learn French through natural conversation.
 Always respond in French unless I explicitly ask for something in English using square brackets, like [translate this].
 If I make a mistake, gently correct it and explain why, but don't interrupt the conversational flow.
-Keep your responses concise and appropriate for a language learner.` + AppComponent.jsonInstruction
+Keep your responses concise and appropriate for a language learner.` + TUTOR_JSON_INSTRUCTION
     },
     {
       name: 'Chloé',
@@ -140,7 +162,7 @@ Keep your responses concise and appropriate for a language learner.` + AppCompon
       systemInstruction: `You are a cheerful and energetic French language tutor named 'Chloé'.
 Your goal is to make learning French fun and engaging. Use modern, everyday language and maybe an emoji or two where appropriate 😉.
 Always respond in French. If I make a mistake, correct it in a friendly, encouraging way.
-Keep responses upbeat and not too long.` + AppComponent.jsonInstruction
+Keep responses upbeat and not too long.` + TUTOR_JSON_INSTRUCTION
     },
     {
       name: 'Marc',
@@ -149,7 +171,7 @@ Keep responses upbeat and not too long.` + AppComponent.jsonInstruction
       voiceName: 'Thomas', // Common on Windows
       systemInstruction: `You are a formal and precise French language tutor named 'Marc'.
 Your goal is to help me achieve grammatical accuracy. Your tone is professional and clear.
-Always respond in French. When I make a mistake, provide a detailed correction and explain the grammatical rule. Focus on precision.` + AppComponent.jsonInstruction
+Always respond in French. When I make a mistake, provide a detailed correction and explain the grammatical rule. Focus on precision.` + TUTOR_JSON_INSTRUCTION
     },
   ];
 
@@ -171,7 +193,7 @@ Always respond in French. When I make a mistake, provide a detailed correction a
       description: 'Practice ordering drinks and snacks.',
       objective: 'Your goal is to successfully order a coffee and a croissant.',
       backgroundImageUrl: 'https://picsum.photos/id/225/1200/800',
-      systemInstruction: `You are a friendly but busy waiter in a Parisian café. I am a customer. Your goal is to take my order. Start by greeting me and asking what I would like. Respond naturally to my requests, and if I ask for the bill, provide a total. Keep your language authentic to a café setting.` + AppComponent.jsonInstruction,
+      systemInstruction: `You are a friendly but busy waiter in a Parisian café. I am a customer. Your goal is to take my order. Start by greeting me and asking what I would like. Respond naturally to my requests, and if I ask for the bill, provide a total. Keep your language authentic to a café setting.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: 'Start the conversation by greeting me as a waiter would.',
     },
     {
@@ -180,7 +202,7 @@ Always respond in French. When I make a mistake, provide a detailed correction a
       description: 'Learn to ask for and understand directions.',
       objective: 'Your goal is to find your way to the Eiffel Tower from a random location.',
       backgroundImageUrl: 'https://picsum.photos/id/175/1200/800',
-      systemInstruction: `You are a helpful Parisian local, and I am a lost tourist. I will ask you for directions to a landmark. You should provide clear, step-by-step directions in French. Use common directional phrases (e.g., 'allez tout droit', 'tournez à gauche'). Start by asking me where I would like to go.` + AppComponent.jsonInstruction,
+      systemInstruction: `You are a helpful Parisian local, and I am a lost tourist. I will ask you for directions to a landmark. You should provide clear, step-by-step directions in French. Use common directional phrases (e.g., 'allez tout droit', 'tournez à gauche'). Start by asking me where I would like to go.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: 'Start the conversation by asking me where I want to go.',
     },
     {
@@ -189,7 +211,7 @@ Always respond in French. When I make a mistake, provide a detailed correction a
       description: 'Practice answering common interview questions.',
       objective: 'Your goal is to answer 3-4 interview questions confidently.',
       backgroundImageUrl: 'https://picsum.photos/id/119/1200/800',
-      systemInstruction: `You are a hiring manager for a tech company in France, and I am a job applicant. Your task is to conduct a short interview. Ask me typical interview questions one by one, like "Parlez-moi de vous" or "Quelles sont vos plus grandes qualités?". Keep your tone professional and encouraging.` + AppComponent.jsonInstruction,
+      systemInstruction: `You are a hiring manager for a tech company in France, and I am a job applicant. Your task is to conduct a short interview. Ask me typical interview questions one by one, like "Parlez-moi de vous" or "Quelles sont vos plus grandes qualités?". Keep your tone professional and encouraging.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: 'Start the interview by introducing yourself and asking me to tell you about myself.',
     }
   ];
@@ -199,21 +221,21 @@ Always respond in French. When I make a mistake, provide a detailed correction a
       icon: 'fa-comments',
       title: 'Present Tense (Le Présent)',
       description: 'Practice conjugating regular and irregular verbs in the present tense.',
-      systemInstruction: `You are a grammar coach. Your current topic is 'Le Présent' (the Present Tense). Your goal is to help me master this tense. Start by giving a very brief, one-sentence explanation of its main use. Then, give me a simple verb (like 'parler') and ask me to conjugate it for 'je'. Wait for my response. If I'm right, praise me and give me another pronoun. If I'm wrong, gently correct me and explain the rule. Continue this interactive exercise with a few different verbs.` + AppComponent.jsonInstruction,
+      systemInstruction: `You are a grammar coach. Your current topic is 'Le Présent' (the Present Tense). Your goal is to help me master this tense. Start by giving a very brief, one-sentence explanation of its main use. Then, give me a simple verb (like 'parler') and ask me to conjugate it for 'je'. Wait for my response. If I'm right, praise me and give me another pronoun. If I'm wrong, gently correct me and explain the rule. Continue this interactive exercise with a few different verbs.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: `Start the grammar lesson on 'Le Présent'.`
     },
     {
       icon: 'fa-venus-mars',
       title: 'Gender of Nouns (Le Genre)',
       description: 'Learn to identify and use the correct gender for common nouns.',
-      systemInstruction: `You are a grammar coach. Your topic is 'Le Genre' (Noun Genders). Your goal is to help me practice using 'un/une' and 'le/la'. Start by giving me a common noun (e.g., 'livre') and ask me to say it with the correct indefinite article ('un' or 'une'). Wait for my response. Correct me if I'm wrong and explain any general rules if applicable (e.g., endings like -tion are often feminine). Continue this with a variety of nouns.` + AppComponent.jsonInstruction,
+      systemInstruction: `You are a grammar coach. Your topic is 'Le Genre' (Noun Genders). Your goal is to help me practice using 'un/une' and 'le/la'. Start by giving me a common noun (e.g., 'livre') and ask me to say it with the correct indefinite article ('un' or 'une'). Wait for my response. Correct me if I'm wrong and explain any general rules if applicable (e.g., endings like -tion are often feminine). Continue this with a variety of nouns.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: `Start the grammar lesson on 'Le Genre'.`
     },
     {
       icon: 'fa-clock-rotate-left',
       title: 'Past Tense (Le Passé Composé)',
       description: 'Practice forming the past tense with avoir and être.',
-      systemInstruction: `You are a grammar coach. Your topic is 'Le Passé Composé'. Start with a brief explanation of how it's formed with 'avoir'. Then give me a verb (e.g., 'manger') and a pronoun (e.g., 'tu') and ask me to form the passé composé. Wait for my response. Correct me if needed. After a few 'avoir' verbs, introduce a common 'être' verb (like 'aller') and explain the difference, including agreement.` + AppComponent.jsonInstruction,
+      systemInstruction: `You are a grammar coach. Your topic is 'Le Passé Composé'. Start with a brief explanation of how it's formed with 'avoir'. Then give me a verb (e.g., 'manger') and a pronoun (e.g., 'tu') and ask me to form the passé composé. Wait for my response. Correct me if needed. After a few 'avoir' verbs, introduce a common 'être' verb (like 'aller') and explain the difference, including agreement.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: `Start the grammar lesson on 'Le Passé Composé'.`
     }
   ];
@@ -226,7 +248,7 @@ Always respond in French. When I make a mistake, provide a detailed correction a
       systemInstruction: `You are a language tutor creating a listening exercise. Your task is to generate a short monologue (3-4 sentences) in French about being at a market. Then, create 1-2 multiple-choice comprehension questions about the monologue.
       IMPORTANT: The "response" property of your JSON output must be a STRING containing another JSON object. This inner JSON object must have:
       1. "monologue": The French monologue text.
-      2. "questions": An array of question objects, each with "questionText" (in French) and an array of "options", and the "correctOptionIndex".` + AppComponent.jsonInstruction,
+      2. "questions": An array of question objects, each with "questionText" (in French) and an array of "options", and the "correctOptionIndex".` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: 'Generate a listening exercise about being at a market.'
     },
     {
@@ -236,15 +258,14 @@ Always respond in French. When I make a mistake, provide a detailed correction a
       systemInstruction: `You are a language tutor creating a listening exercise. Your task is to generate a short monologue (3-4 sentences) in French, imitating a simple weather report. Then, create 1-2 multiple-choice comprehension questions about the forecast.
       IMPORTANT: The "response" property of your JSON output must be a STRING containing another JSON object. This inner JSON object must have:
       1. "monologue": The French monologue text.
-      2. "questions": An array of question objects, each with "questionText" (in French) and an array of "options", and the "correctOptionIndex".` + AppComponent.jsonInstruction,
+      2. "questions": An array of question objects, each with "questionText" (in French) and an array of "options", and the "correctOptionIndex".` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: 'Generate a listening exercise about the weather.'
     }
   ];
   
   constructor() {
-    this.loadProgressFromStorage();
-    this.loadSettingsFromStorage();
-    this.checkDailyStreak();
+    this.loadProfileData();
+    this.storageService.onProfileSwitch(() => this.loadProfileData());
   }
 
   currentLevel = computed(() => this.levels[this.userProgress().levelIndex]);
@@ -255,6 +276,20 @@ Always respond in French. When I make a mistake, provide a detailed correction a
       return this.levels[currentLevelIndex + 1];
   });
 
+  /** Why the selected provider can't be used yet, or null if it's good to go. */
+  apiKeyBlocker = computed(() => {
+    const provider = this.userSettings().llmProvider;
+    const status = this.credentialsService.status(provider);
+    return this.credentialsService.requiresKey(provider) && status !== 'ready' ? status : null;
+  });
+
+  usageToday = computed(() => this.usageService.todayUsage());
+  usageThisWeek = computed(() => this.usageService.recentUsage(7));
+  usageCapState = computed(() => this.usageService.capState());
+  dueWordCount = computed(() => this.vocabularyService.wordsDueForReview().length);
+  unresolvedMistakeCount = computed(() => this.mistakeLogService.unresolved().length);
+  dueMistakeCount = computed(() => this.mistakeLogService.dueForPractice().length);
+
   progressPercentage = computed(() => {
       const current = this.currentLevel();
       const next = this.nextLevel();
@@ -267,21 +302,121 @@ Always respond in French. When I make a mistake, provide a detailed correction a
   });
 
   onSplashAnimationDone(): void {
+    // A device with a single learner skips straight to their dashboard
+    if (this.storageService.profiles().length > 1) {
+      this.appState.set('profiles');
+    } else {
+      this.onProfileChosen();
+    }
+  }
+
+  onProfileChosen(): void {
+    this.checkDailyStreak();
+    this.interruptedSession.set(this.sessionCheckpointService.checkpoint());
     this.appState.set('landing');
   }
 
-  onStartSession(state: ChatInitialState): void {
+  onResumeSession(): void {
+    const checkpoint = this.interruptedSession();
+    if (!checkpoint) return;
+    if (this.apiKeyBlocker()) {
+      this.showCredentials.set(true);
+      return;
+    }
+    this.interruptedSession.set(null);
+    this.resumeCheckpoint.set(checkpoint);
+    this.initialChatState.set(checkpoint.state);
+    this.appState.set('chat');
+  }
+
+  discardInterruptedSession(): void {
+    this.interruptedSession.set(null);
+    this.sessionCheckpointService.clear();
+  }
+
+  onSwitchProfile(): void {
+    this.appState.set('profiles');
+  }
+
+  onStartSession(state: SessionStart): void {
+    if (this.apiKeyBlocker()) {
+      this.showCredentials.set(true);
+      return;
+    }
     const tutor = this.tutors.find(t => t.name === this.userSettings().tutorName);
-    const stateWithTutor = { ...state, tutor: tutor || this.tutors[0] };
+    const stateWithTutor: ChatInitialState = { ...state, tutor: tutor || this.tutors[0] };
+    this.interruptedSession.set(null);
+    this.resumeCheckpoint.set(null);
     this.initialChatState.set(stateWithTutor);
     this.appState.set('chat');
   }
   
+  onStartReview(): void {
+    this.appState.set('flashcards');
+  }
+
+  onViewHistory(): void {
+    this.appState.set('history');
+  }
+
+  onHistoryClosed(): void {
+    this.appState.set('landing');
+  }
+
+  onViewProgress(): void {
+    this.appState.set('progress');
+  }
+
+  onProgressClosed(): void {
+    this.appState.set('landing');
+  }
+
+  onViewMistakes(): void {
+    this.appState.set('mistakes');
+  }
+
+  onMistakesClosed(): void {
+    this.appState.set('landing');
+  }
+
+  onWorkOnMistakes(mistakes: LoggedMistake[]): void {
+    this.onStartSession({ type: 'mistakes', data: { title: 'Work on my mistakes', mistakes } });
+  }
+
+  openTextImport(): void {
+    if (this.apiKeyBlocker()) {
+      this.showCredentials.set(true);
+      return;
+    }
+    this.showTextImport.set(true);
+  }
+
+  closeTextImport(): void {
+    this.showTextImport.set(false);
+  }
+
+  onStartReading(reading: ReadingText): void {
+    this.showTextImport.set(false);
+    this.onStartSession({ type: 'reading', data: reading });
+  }
+
+  onReviewEnded(): void {
+    // Reviews earn XP card by card; they aren't conversations, so sessions and achievements stay as they were
+    this.appState.set('landing');
+  }
+
   onSessionEnded(sessionStats: SessionStats): void {
     this.updateProgress(sessionStats);
     this.appState.set('landing');
   }
 
+  /** Words added to the bank outside a conversation (imports, text extraction) still count towards achievements. */
+  onWordsAdded(count: number): void {
+    this.userProgress.update(p => ({ ...p, stats: { ...p.stats, wordsSaved: p.stats.wordsSaved + count } }));
+    this.checkAchievements();
+    this.saveProgressToStorage();
+  }
+
   onXpGained(amount: number): void {
     const currentProgress = this.userProgress();
     const newXp = currentProgress.xp + amount;
@@ -300,6 +435,32 @@ Always respond in French. When I make a mistake, provide a detailed correction a
   onSettingsChanged(newSettings: UserSettings): void {
     this.userSettings.set(newSettings);
     this.saveSettingsToStorage();
+    this.applyProviderSettings();
+    this.applyUsageCaps();
+  }
+
+  onCredentialsChanged(): void {
+    this.applyProviderSettings();
+  }
+
+  openCredentialsModal(): void {
+    this.showCredentials.set(true);
+  }
+
+  dismissStorageIssue(): void {
+    this.storageService.dismissIssue();
+  }
+
+  openBackupModal(): void {
+    this.showBackup.set(true);
+  }
+
+  closeBackupModal(): void {
+    this.showBackup.set(false);
+  }
+
+  closeCredentialsModal(): void {
+    this.showCredentials.set(false);
   }
 
   closeLevelUpModal(): void {
@@ -383,51 +544,73 @@ Always respond in French. When I make a mistake, provide a detailed correction a
     this.saveProgressToStorage();
   }
 
-  private loadProgressFromStorage(): void {
-    try {
-      const storedData = localStorage.getItem(this.PROGRESS_STORAGE_KEY);
-      if (storedData) {
-        const parsedData = JSON.parse(storedData) as UserProgress;
-        if (parsedData && typeof parsedData.levelIndex === 'number') {
-          const defaultProgress = {
-              levelIndex: 0, xp: 0, lastSessionDate: null, currentStreak: 0,
-              unlockedAchievements: [],
-              stats: { sessionsCompleted: 0, wordsSaved: 0, scenariosCompleted: [], grammarCompleted: [] }
-          };
-          const mergedProgress = { ...defaultProgress, ...parsedData };
-          mergedProgress.stats = { ...defaultProgress.stats, ...(parsedData.stats || {}) };
-          this.userProgress.set(mergedProgress);
-        }
+  private loadProfileData(): void {
+    this.loadProgressFromStorage();
+    this.loadSettingsFromStorage();
+    this.applyProviderSettings();
+    this.applyUsageCaps();
+  }
+
+  private defaultProgress(): UserProgress {
+    return {
+      levelIndex: 0,
+      xp: 0,
+      lastSessionDate: null,
+      currentStreak: 0,
+      unlockedAchievements: [],
+      stats: {
+        sessionsCompleted: 0,
+        wordsSaved: 0,
+        scenariosCompleted: [],
+        grammarCompleted: [],
       }
-    } catch (e) {
-      console.error('Failed to load progress from local storage:', e);
-    }
+    };
+  }
+
+  private defaultSettings(): UserSettings {
+    return {
+      speakingRate: 1,
+      tutorName: 'Ami',
+      llmProvider: 'gemini',
+      llmModel: DEFAULT_MODELS['gemini'],
+      llmBaseUrl: DEFAULT_OPENAI_BASE_URL,
+      llmTasks: {},
+      dailyRequestCap: 0,
+      dailyTokenCap: 0,
+    };
+  }
+
+  private loadProgressFromStorage(): void {
+    // Older saves are brought up to the current shape by the storage migrations
+    this.userProgress.set(this.storageService.get<UserProgress>('progress') ?? this.defaultProgress());
   }
 
   private saveProgressToStorage(): void {
-    try {
-      localStorage.setItem(this.PROGRESS_STORAGE_KEY, JSON.stringify(this.userProgress()));
-    } catch (e) {
-      console.error('Failed to save progress to local storage:', e);
-    }
+    this.storageService.set('progress', this.userProgress());
+  }
+
+  private applyProviderSettings(): void {
+    const settings = this.userSettings();
+    this.geminiService.configure({
+      provider: settings.llmProvider,
+      model: settings.llmModel,
+      baseUrl: settings.llmBaseUrl,
+      apiKey: this.credentialsService.getKey(settings.llmProvider),
+      tasks: settings.llmTasks,
+    });
+  }
+
+  private applyUsageCaps(): void {
+    const settings = this.userSettings();
+    this.usageService.setCaps({ requests: settings.dailyRequestCap, tokens: settings.dailyTokenCap });
   }
 
   private loadSettingsFromStorage(): void {
-    try {
-      const storedData = localStorage.getItem(this.SETTINGS_STORAGE_KEY);
-      if (storedData) {
-        this.userSettings.set(JSON.parse(storedData));
-      }
-    } catch(e) {
-      console.error('Failed to load settings from local storage:', e);
-    }
+    // Merge so settings saved by older versions pick up defaults for new fields
+    this.userSettings.set({ ...this.defaultSettings(), ...this.storageService.get<Partial<UserSettings>>('settings') });
   }
 
   private saveSettingsToStorage(): void {
-    try {
-      localStorage.setItem(this.SETTINGS_STORAGE_KEY, JSON.stringify(this.userSettings()));
-    } catch(e) {
-      console.error('Failed to save settings to local storage:', e);
-    }
+    this.storageService.set('settings', this.userSettings());
   }
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Component, output, signal, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StorageService } from '../../services/storage.service';
+import { BACKUP_KEYS, BackupData, BackupError, RestoreMode, RestorePreview, createBackup, readBackup, restoreBackup } from '../../services/backup';
+
+@Component({
+  selector: 'app-backup',
+  templateUrl: './backup.component.html',
+  imports: [CommonModule],
+})
+export class BackupComponent {
+  private storageService = inject(StorageService);
+
+  close = output<void>();
+
+  isWorking = signal(false);
+  errorMessage = signal<string | null>(null);
+  fileName = signal<string | null>(null);
+  preview = signal<RestorePreview | null>(null);
+  confirmingReplace = signal(false);
+
+  async exportBackup(): Promise<void> {
+    const content = await createBackup(this.deviceData());
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `french-companion-backup-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    input.value = ''; // So choosing the same file again still triggers a change
+
+    this.errorMessage.set(null);
+    this.preview.set(null);
+    this.confirmingReplace.set(false);
+    this.fileName.set(file.name);
+    this.isWorking.set(true);
+    try {
+      this.preview.set(await readBackup(await file.text(), this.deviceData()));
+    } catch (e) {
+      console.error('Failed to read backup file:', e);
+      this.errorMessage.set(e instanceof BackupError ? e.message : 'That file could not be read.');
+    } finally {
+      this.isWorking.set(false);
+    }
+  }
+
+  async restore(mode: RestoreMode): Promise<void> {
+    const preview = this.preview();
+    if (!preview) return;
+    if (mode === 'replace' && !this.confirmingReplace()) {
+      this.confirmingReplace.set(true);
+      return;
+    }
+
+    this.isWorking.set(true);
+    this.errorMessage.set(null);
+    try {
+      await this.storageService.setMany(restoreBackup(this.deviceData(), preview.data, mode));
+      // Every part of the app reads its data at startup, so start afresh rather than patch each one
+      window.location.reload();
+    } catch (e) {
+      console.error('Failed to restore backup:', e);
+      this.errorMessage.set('The backup could not be saved to this browser. Nothing has been changed.');
+      this.isWorking.set(false);
+    }
+  }
+
+  cancelRestore(): void {
+    this.preview.set(null);
+    this.fileName.set(null);
+    this.confirmingReplace.set(false);
+  }
+
+  closeModal(): void {
+    if (!this.isWorking()) {
+      this.close.emit();
+    }
+  }
+
+  formatDate(iso: string): string {
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? 'an unknown date' : date.toLocaleString();
+  }
+
+  private deviceData(): BackupData {
+    return Object.fromEntries(BACKUP_KEYS.map(key => [key, this.storageService.get(key)]));
+  }
+}
@@ -13,24 +13,37 @@ import {
   computed,
   input,
   output,
+  DestroyRef,
+  untracked,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { GeminiService, Message, VocabularyItem, VocabularyBankItem, SessionReview, MicroLessonSuggestion, ListeningContent } from '../../services/gemini.service';
+import { GeminiService, Message, VocabularyItem, VocabularyBankItem, SessionReview, MicroLessonSuggestion, ListeningContent, RecallGrade, Correction, TUTOR_JSON_INSTRUCTION } from '../../services/gemini.service';
+import { VocabularyService, findUsedWords } from '../../services/vocabulary.service';
 import { VocabularyBankComponent } from '../vocabulary-bank/vocabulary-bank.component';
 import { Scenario } from '../scenario-selection/scenario-selection.component';
 import { GrammarTopic } from '../grammar-selection/grammar-selection.component';
 import { LevelUpComponent } from '../level-up/level-up.component';
 import { SessionReviewComponent } from '../session-review/session-review.component';
-import { Content } from '@google/genai';
-import { ListeningExercise, Tutor, UserSettings } from '../../app.component';
-
-export type ChatInitialState = 
-  (
-    | { type: 'free-talk' }
-    | { type: 'scenario', data: Scenario }
-    | { type: 'grammar', data: GrammarTopic }
-    | { type: 'listening', data: ListeningExercise }
-  ) & { tutor: Tutor };
+import { TUTOR_ERROR_MESSAGES, TutorErrorKind, classifyError } from '../../services/tutor-error';
+import { UsageService } from '../../services/usage.service';
+import { TextToken, WordLookupService, tokenizeText } from '../../services/word-lookup.service';
+import { MarkedMessage, markCorrections } from '../../services/corrections';
+import { SessionHistoryService } from '../../services/session-history.service';
+import { previousComparableReview } from '../../services/progress-analytics';
+import { MISTAKE_CATEGORY_LABELS, MistakeFocus, MistakeLogService } from '../../services/mistake-log.service';
+import { SavedConversationState, SessionCheckpoint, SessionCheckpointService } from '../../services/session-checkpoint.service';
+import { ListeningExercise, ReadingText, Tutor, UserSettings } from '../../app.component';
+
+/** What the learner chose to practise; the app adds the tutor from their settings. */
+export type SessionStart =
+  | { type: 'free-talk' }
+  | { type: 'scenario', data: Scenario }
+  | { type: 'grammar', data: GrammarTopic }
+  | { type: 'listening', data: ListeningExercise }
+  | { type: 'reading', data: ReadingText }
+  | { type: 'mistakes', data: MistakeFocus };
+
+export type ChatInitialState = SessionStart & { tutor: Tutor };
 
 
 export interface SessionStats {
@@ -39,9 +52,20 @@ export interface SessionStats {
   grammarCompleted: string | null;
 }
 
-interface SavedConversationState {
-  messages: Message[];
-  history: Content[];
+interface FailedRequest {
+  kind: TutorErrorKind;
+  message: string;
+  retry: () => void;
+}
+
+interface WordLookupState {
+  word: string;
+  entry: VocabularyItem | null; // null while loading
+  error: string | null;
+  // Viewport position: below the tapped word, or above it near the bottom of the screen
+  top: number | null;
+  bottom: number | null;
+  left: number;
 }
 
 @Component({
@@ -54,14 +78,26 @@ export class ChatComponent {
   initialState = input.required<ChatInitialState>();
   userSettings = input.required<UserSettings>();
   tutors = input.required<Tutor[]>();
+  // An interrupted session to pick up again instead of starting `initialState` afresh
+  resumeFrom = input<SessionCheckpoint | null>(null);
   sessionEnded = output<SessionStats>();
   xpGained = output<number>();
+  wordsAdded = output<number>(); // Imported into the bank; words saved from the chat count in sessionEnded
 
   private geminiService = inject(GeminiService);
+  private usageService = inject(UsageService);
+  private destroyRef = inject(DestroyRef);
+  private vocabularyService = inject(VocabularyService);
+  private wordLookupService = inject(WordLookupService);
+  private sessionHistoryService = inject(SessionHistoryService);
+  private sessionCheckpointService = inject(SessionCheckpointService);
+  private mistakeLogService = inject(MistakeLogService);
   
   messages = signal<Message[]>([]);
   isLoading = signal(true);
   error = signal<string | null>(null);
+  // Tutor request that failed; kept out of the transcript until the learner retries it
+  failedRequest = signal<FailedRequest | null>(null);
   
   // Input mode state
   chatMode = signal<'voice' | 'text'>('voice');
@@ -72,16 +108,23 @@ export class ChatComponent {
   isSpeaking = signal(false);
 
   // Modals and active states
-  vocabularyBank = signal<VocabularyBankItem[]>([]);
   showVocabularyBank = signal(false);
   activeScenario = signal<Scenario | null>(null);
   activeGrammarTopic = signal<GrammarTopic | null>(null);
+  activeReadingText = signal<ReadingText | null>(null);
+  activeMistakeFocus = signal<MistakeFocus | null>(null);
   
   // Session Review State
   showSessionReview = signal(false);
   isReviewLoading = signal(false);
   sessionReviewData = signal<SessionReview | null>(null);
+  isReviewSkipped = signal(false); // Near the daily usage cap, the review isn't worth the tokens
   unsavedWordsFromSession = signal<VocabularyItem[]>([]);
+  wordLookup = signal<WordLookupState | null>(null);
+  private readonly lookupPopoverWidth = 288;
+  // Due words the tutor was asked to bring up; removed once the learner uses them
+  sessionDueWords = signal<VocabularyBankItem[]>([]);
+  private readonly maxDueWordsPerSession = 5;
 
   // Micro-Lesson State
   microLessonSuggestion = signal<MicroLessonSuggestion | null>(null);
@@ -95,41 +138,32 @@ export class ChatComponent {
 
   // Session Stats for Gamification
   private sessionStats: SessionStats = { wordsSaved: 0, scenarioCompleted: null, grammarCompleted: null };
+  private sessionStartedAt = new Date();
+  // Set once the learner ends the session, so a late update can't checkpoint it again
+  private isSessionOver = false;
 
   chatContainer = viewChild<ElementRef<HTMLDivElement>>('chatContainer');
 
   private recognition: any = null;
   public frenchVoice: SpeechSynthesisVoice | null = null;
-  private readonly VOCAB_STORAGE_KEY = 'french-companion-vocab-bank';
-  private readonly srsIntervalsDays = [1, 3, 7, 14, 30, 60, 120];
-
-  private readonly jsonInstruction = `
-IMPORTANT: Your response MUST be a JSON object.
-The JSON object must have the following properties:
-1. "response": A string containing your conversational reply in French.
-2. "vocabulary": An array of JSON objects. Each object represents a key vocabulary word from your response that would be useful for a learner. For each vocabulary word, provide "word" (French), "translation" (English), and "example" (French sentence). If no new words, use an empty array.
-3. "pronunciationFeedback": (Optional) An object providing feedback on the user's pronunciation based on their most recent message. If feedback is not applicable (e.g., first message, unintelligible input), omit this property. The object must contain:
-   - "score": An integer from 1 to 5, where 1 is poor and 5 is excellent.
-   - "feedback": A short, constructive string explaining what was good and what could be improved.
-   - "tip": A single, practical tip for improvement.
-4. "microLessonSuggestion": (Optional) If you detect that the user is making the same grammatical mistake multiple times (at least 2-3 times), suggest a micro-lesson. Do NOT suggest a lesson after only one mistake. The object must contain:
-   - "topic": A string that EXACTLY matches the title of one of these available grammar topics: 'Present Tense (Le Présent)', 'Gender of Nouns (Le Genre)', 'Past Tense (Le Passé Composé)'.
-   - "reason": A short, friendly string in English explaining why you're suggesting this lesson.`;
+  private queuedUtterances = 0;
+  // Tracks the tutor reply currently being streamed in, if any
+  private streamedReply: { shown: boolean; text: string; spokenUpTo: number } | null = null;
 
   private readonly grammarTopicsData: { title: string, systemInstruction: string, openingPrompt: string }[] = [
     {
       title: 'Present Tense (Le Présent)',
-      systemInstruction: `You are a grammar coach. Your current topic is 'Le Présent' (the Present Tense). Your goal is to help me master this tense. Start by giving a very brief, one-sentence explanation of its main use. Then, give me a simple verb (like 'parler') and ask me to conjugate it for 'je'. Wait for my response. If I'm right, praise me and give me another pronoun. If I'm wrong, gently correct me and explain the rule. Continue this interactive exercise with a few different verbs.` + this.jsonInstruction,
+      systemInstruction: `You are a grammar coach. Your current topic is 'Le Présent' (the Present Tense). Your goal is to help me master this tense. Start by giving a very brief, one-sentence explanation of its main use. Then, give me a simple verb (like 'parler') and ask me to conjugate it for 'je'. Wait for my response. If I'm right, praise me and give me another pronoun. If I'm wrong, gently correct me and explain the rule. Continue this interactive exercise with a few different verbs.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: `Start the grammar lesson on 'Le Présent'.`
     },
     {
       title: 'Gender of Nouns (Le Genre)',
-      systemInstruction: `You are a grammar coach. Your topic is 'Le Genre' (Noun Genders). Your goal is to help me practice using 'un/une' and 'le/la'. Start by giving me a common noun (e.g., 'livre') and ask me to say it with the correct indefinite article ('un' or 'une'). Wait for my response. Correct me if I'm wrong and explain any general rules if applicable (e.g., endings like -tion are often feminine). Continue this with a variety of nouns.` + this.jsonInstruction,
+      systemInstruction: `You are a grammar coach. Your topic is 'Le Genre' (Noun Genders). Your goal is to help me practice using 'un/une' and 'le/la'. Start by giving me a common noun (e.g., 'livre') and ask me to say it with the correct indefinite article ('un' or 'une'). Wait for my response. Correct me if I'm wrong and explain any general rules if applicable (e.g., endings like -tion are often feminine). Continue this with a variety of nouns.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: `Start the grammar lesson on 'Le Genre'.`
     },
     {
       title: 'Past Tense (Le Passé Composé)',
-      systemInstruction: `You are a grammar coach. Your topic is 'Le Passé Composé'. Start with a brief explanation of how it's formed with 'avoir'. Then give me a verb (e.g., 'manger') and a pronoun (e.g., 'tu') and ask me to form the passé composé. Wait for my response. Correct me if needed. After a few 'avoir' verbs, introduce a common 'être' verb (like 'aller') and explain the difference, including agreement.` + this.jsonInstruction,
+      systemInstruction: `You are a grammar coach. Your topic is 'Le Passé Composé'. Start with a brief explanation of how it's formed with 'avoir'. Then give me a verb (e.g., 'manger') and a pronoun (e.g., 'tu') and ask me to form the passé composé. Wait for my response. Correct me if needed. After a few 'avoir' verbs, introduce a common 'être' verb (like 'aller') and explain the difference, including agreement.` + TUTOR_JSON_INSTRUCTION,
       openingPrompt: `Start the grammar lesson on 'Le Passé Composé'.`
     }
   ];
@@ -137,18 +171,15 @@ The JSON object must have the following properties:
   // --- Computed Signals ---
   activeTutor = computed(() => this.initialState().tutor);
 
-  wordsDueForReview = computed(() => {
-    const now = new Date();
-    now.setHours(0, 0, 0, 0); // Compare dates only, not times
-    return this.vocabularyBank().filter(item => new Date(item.nextReviewDate) <= now)
-                                .sort((a, b) => new Date(a.nextReviewDate).getTime() - new Date(b.nextReviewDate).getTime());
+  /** The review of the last session like this one, to compare this session's scores against. */
+  previousReview = computed(() => {
+    const state = this.initialState();
+    // This session is only archived once its review is closed, so everything archived is earlier
+    return previousComparableReview(this.sessionHistoryService.sessions(), state.type, this.sessionTitle(), new Date().toISOString());
   });
 
-  otherWordsInBank = computed(() => {
-    const dueWordsSet = new Set(this.wordsDueForReview());
-    return this.vocabularyBank().filter(item => !dueWordsSet.has(item))
-                                .sort((a, b) => a.word.localeCompare(b.word));
-  });
+  wordsDueForReview = this.vocabularyService.wordsDueForReview;
+  otherWordsInBank = this.vocabularyService.otherWords;
 
   backgroundStyle = computed(() => {
     const scenario = this.activeScenario();
@@ -171,8 +202,10 @@ The JSON object must have the following properties:
 
   // --- Component Lifecycle ---
   constructor() {
+    // A reply arriving after the learner has left must not touch the next session
+    this.destroyRef.onDestroy(() => this.geminiService.cancelPendingRequests());
+
     afterNextRender(() => {
-      this.loadVocabularyFromStorage();
       this.initializeSpeechRecognition();
       this.initializeSpeechSynthesis();
     });
@@ -183,16 +216,27 @@ The JSON object must have the following properties:
       }
     });
 
-    effect(() => this.saveToStorage(this.VOCAB_STORAGE_KEY, this.vocabularyBank()));
-
     // Start session when input is ready
     effect(() => {
       const state = this.initialState();
-      if (state) {
+      const checkpoint = untracked(() => this.resumeFrom());
+      if (checkpoint) {
+        this.resumeSession(checkpoint);
+      } else if (state) {
         this.startSession(state);
       }
     });
 
+    // Checkpoint once each turn has settled, never a half-streamed reply
+    effect(() => {
+      const messages = this.messages();
+      if (this.isLoading() || this.showSessionReview() || !messages.length) return;
+      this.listeningState();
+      this.selectedAnswers();
+      this.activeMicroLesson();
+      untracked(() => this.saveCheckpoint());
+    });
+
     // Update voice when tutor changes
     effect(() => {
         const tutor = this.activeTutor();
@@ -206,12 +250,20 @@ The JSON object must have the following properties:
   async startSession(state: ChatInitialState): Promise<void> {
     this.isLoading.set(true);
     this.error.set(null);
+    this.failedRequest.set(null);
     this.messages.set([]);
     this.activeScenario.set(null);
     this.activeGrammarTopic.set(null);
     this.activeMicroLesson.set(null);
     this.activeListeningExercise.set(null);
+    this.activeReadingText.set(null);
+    this.activeMistakeFocus.set(null);
     this.sessionStats = { wordsSaved: 0, scenarioCompleted: null, grammarCompleted: null };
+    this.sessionStartedAt = new Date();
+    this.sessionDueWords.set([]);
+    this.savedConversationState.set(null);
+    this.isSessionOver = false;
+    this.sessionCheckpointService.clear(); // A new session replaces any interrupted one
 
     let systemInstruction = '';
     let openingPrompt = '';
@@ -232,45 +284,102 @@ The JSON object must have the following properties:
       openingPrompt = state.data.openingPrompt;
       this.listeningState.set('listening');
       this.selectedAnswers.set(new Map());
+    } else if (state.type === 'reading') {
+      systemInstruction = state.tutor.systemInstruction + this.readingInstruction(state.data);
+      openingPrompt = "Sum up the text I just read in two or three simple sentences, then ask me a first question about it.";
+      this.activeReadingText.set(state.data);
+    } else if (state.type === 'mistakes') {
+      systemInstruction = state.tutor.systemInstruction + this.mistakesInstruction(state.data);
+      openingPrompt = "Greet me and start a conversation that naturally gives me chances to use the points I keep getting wrong.";
+      this.activeMistakeFocus.set(state.data);
+    }
+
+    if (state.type !== 'listening') {
+      const dueWords = this.vocabularyService.wordsDueForReview().slice(0, this.maxDueWordsPerSession);
+      this.sessionDueWords.set(dueWords);
+      systemInstruction += this.dueVocabularyInstruction(dueWords);
     }
 
     try {
-      const { modelResponse } = await this.geminiService.startNewConversation(systemInstruction, openingPrompt);
-      
+      // Listening exercises arrive as JSON inside "response", so they are not streamed
+      this.streamedReply = { shown: false, text: '', spokenUpTo: 0 };
+      const { modelResponse } = state.type === 'listening'
+        ? await this.geminiService.startListeningExercise(systemInstruction, openingPrompt)
+        : await this.geminiService.startNewConversation(systemInstruction, openingPrompt, text => this.showStreamedText(text));
+
       if (state.type === 'listening') {
-        try {
-            const listeningContent = JSON.parse(modelResponse.text) as ListeningContent;
-            modelResponse.listeningContent = listeningContent;
+        const listeningContent = modelResponse.listeningContent;
+        if (listeningContent) {
             this.messages.set([modelResponse]);
             this.activeListeningExercise.set(listeningContent);
             this.speak(listeningContent.monologue, () => this.listeningState.set('revealed'));
-        } catch(e) {
-            console.error("Failed to parse listening exercise JSON:", e);
+        } else {
             this.error.set('Could not load the listening exercise. Please try another one.');
-            modelResponse.text = "Désolé, je n'ai pas pu charger cet exercice. Essayons autre chose.";
-            this.messages.set([modelResponse]);
         }
       } else {
         this.messages.set([modelResponse]);
-        if (this.chatMode() === 'voice') {
-          this.speak(modelResponse.text);
-        }
+        this.speakStreamedSentences(modelResponse.text, true);
       }
     } catch(e) {
-      this.error.set('Could not start a chat session. Please check your API key and network connection.');
-      console.error(e);
+      this.messages.set([]);
+      this.reportFailure(e, () => this.startSession(state));
     } finally {
+      this.streamedReply = null;
       this.isLoading.set(false);
     }
   }
 
-  private loadVocabularyFromStorage(): void {
-    const storedData = this.loadFromStorage<VocabularyBankItem[]>(this.VOCAB_STORAGE_KEY);
-    if (storedData) {
-      this.vocabularyBank.set(storedData);
+  /** Puts an interrupted session back as it was checkpointed, without asking the tutor for anything. */
+  resumeSession(checkpoint: SessionCheckpoint): void {
+    const state = checkpoint.state;
+    this.error.set(null);
+    this.failedRequest.set(null);
+    this.activeScenario.set(state.type === 'scenario' ? state.data : null);
+    this.activeGrammarTopic.set(state.type === 'grammar' ? state.data : null);
+    this.activeReadingText.set(state.type === 'reading' ? state.data : null);
+    this.activeMistakeFocus.set(state.type === 'mistakes' ? state.data : null);
+    this.activeMicroLesson.set(checkpoint.microLesson?.topic ?? null);
+    this.savedConversationState.set(checkpoint.microLesson?.saved ?? null);
+    this.activeListeningExercise.set(checkpoint.listening.exercise);
+    this.selectedAnswers.set(new Map(checkpoint.listening.selectedAnswers));
+    this.sessionStats = { ...checkpoint.stats };
+    this.sessionStartedAt = new Date(checkpoint.startedAt);
+    this.sessionDueWords.set(checkpoint.dueWords);
+    this.isSessionOver = false;
+    this.geminiService.restoreConversation(checkpoint.conversation);
+    this.messages.set(checkpoint.messages);
+    this.isLoading.set(false);
+
+    const exercise = checkpoint.listening.exercise;
+    if (exercise && checkpoint.listening.state === 'listening') {
+      // The monologue was cut off; play it again before showing the questions
+      this.listeningState.set('listening');
+      this.speak(exercise.monologue, () => this.listeningState.set('revealed'));
+    } else {
+      this.listeningState.set(checkpoint.listening.state);
     }
   }
 
+  private saveCheckpoint(): void {
+    if (this.isSessionOver) return;
+    const microLesson = this.activeMicroLesson();
+    this.sessionCheckpointService.save({
+      state: this.initialState(),
+      startedAt: this.sessionStartedAt.toISOString(),
+      savedAt: new Date().toISOString(),
+      messages: this.messages(),
+      conversation: this.geminiService.getConversation(),
+      stats: { ...this.sessionStats },
+      dueWords: this.sessionDueWords(),
+      listening: {
+        exercise: this.activeListeningExercise(),
+        state: this.listeningState(),
+        selectedAnswers: [...this.selectedAnswers()],
+      },
+      microLesson: microLesson ? { topic: microLesson, saved: this.savedConversationState() } : null,
+    });
+  }
+
   initializeSpeechSynthesis(): void {
     if ('speechSynthesis' in window) {
       const setVoice = () => {
@@ -382,15 +491,24 @@ The JSON object must have the following properties:
 
     this.messages.update(current => [...current, userMessage]);
     this.microLessonSuggestion.set(null); // Clear previous suggestion
-    this.xpGained.emit(1);
     this.isLoading.set(true);
     this.error.set(null);
+    this.failedRequest.set(null);
 
     try {
-      const { modelResponse, userFeedback, microLessonSuggestion } = await this.geminiService.sendMessage(userMessage.text);
-      
+      this.streamedReply = { shown: false, text: '', spokenUpTo: 0 };
+      const { modelResponse, userFeedback, userCorrections, microLessonSuggestion } = await this.geminiService.sendMessage(
+        userMessage.text,
+        text => this.showStreamedText(text),
+      );
+      const reviewedWords = this.creditDueWordsUsed(userMessage); // Only once answered: a failed turn never counts as a review
+      if (reviewedWords.length) {
+        this.messages.update(current => current.map(m => m === userMessage ? { ...m, reviewedWords } : m));
+      }
+
       this.messages.update(current => {
-        const newMessages = [...current];
+        // Replace the streamed placeholder with the complete reply
+        const newMessages = this.streamedReply?.shown ? current.slice(0, -1) : [...current];
         let lastUserMsgIndex = -1;
         for (let i = newMessages.length - 1; i >= 0; i--) {
           if (newMessages[i].role === 'user' && !newMessages[i].pronunciationFeedback) {
@@ -403,29 +521,143 @@ The JSON object must have the following properties:
           newMessages[lastUserMsgIndex] = { ...newMessages[lastUserMsgIndex], pronunciationFeedback: userFeedback };
           this.xpGained.emit(userFeedback.score);
         }
+        if (lastUserMsgIndex !== -1 && userCorrections.length) {
+          newMessages[lastUserMsgIndex] = { ...newMessages[lastUserMsgIndex], corrections: userCorrections };
+        }
         
         return [...newMessages, modelResponse];
       });
+      this.xpGained.emit(1); // Only turns the tutor actually answered earn XP
       
       if (microLessonSuggestion) {
         this.microLessonSuggestion.set(microLessonSuggestion);
       }
 
-      if (this.chatMode() === 'voice') {
-        this.speak(modelResponse.text);
-      }
+      this.speakStreamedSentences(modelResponse.text, true);
     } catch(e) {
-      const errorMessage = 'Désolé, une erreur est survenue.';
-      this.messages.update(current => [...current, {role: 'model', text: errorMessage}]);
-      this.error.set('Failed to get a response. Please try again.');
-      console.error(e);
-      if (this.chatMode() === 'voice') {
-        this.speak(errorMessage);
+      // Drop the unanswered message and any partial reply so they never reach the review
+      if (this.streamedReply?.shown) {
+        this.messages.update(current => current.slice(0, -1));
+        if ('speechSynthesis' in window) window.speechSynthesis.cancel();
       }
+      this.messages.update(current => current.filter(m => m !== userMessage));
+      this.reportFailure(e, () => this.sendMessage(userMessage.text));
     } finally {
+      this.streamedReply = null;
       this.isLoading.set(false);
     }
   }
+
+  /**
+   * Counts each due word the learner used in `message` as a successful review, once per session.
+   * Words reviewed elsewhere since the session started are no longer due and are skipped.
+   * Returns the words credited.
+   */
+  private creditDueWordsUsed(message: Message): string[] {
+    const stillDue = new Set(this.vocabularyService.wordsDueForReview().map(item => item.word));
+    const used = findUsedWords(message.text, this.sessionDueWords().filter(item => stillDue.has(item.word)));
+    if (!used.length) return [];
+
+    used.forEach(item => this.reviewWord({ item, grade: 'good' }));
+    this.sessionDueWords.update(words => words.filter(item => !used.includes(item)));
+    return used.map(item => item.word);
+  }
+
+  private dueVocabularyInstruction(words: VocabularyBankItem[]): string {
+    if (!words.length) return '';
+    const list = words.map(item => `- "${item.word}" (${item.translation})`).join('\n');
+    return `
+
+VOCABULARY REVIEW: The learner is due to review these words from their vocabulary bank:
+${list}
+Over the conversation, use a few of them naturally in your replies and create chances for the learner to use them too. Don't quiz the learner on them or list them, and don't force a word in where it doesn't fit.`;
+  }
+
+  private readingInstruction(reading: ReadingText): string {
+    return `
+
+READING DISCUSSION: The learner has just read this French text and wants to talk about it:
+"""
+${reading.text.slice(0, this.geminiService.maxExtractionChars)}
+"""
+Discuss its content and ideas with the learner, help with any words or passages they ask about, and encourage them to give their own opinion. Keep your replies at the learner's level even where the text is harder.`;
+  }
+
+  private mistakesInstruction(focus: MistakeFocus): string {
+    const list = focus.mistakes
+      .map(mistake => `- [${MISTAKE_CATEGORY_LABELS[mistake.category]}] "${mistake.userText}" should be "${mistake.correction}" (${mistake.explanation})`)
+      .join('\n');
+    return `
+
+MISTAKE PRACTICE: The learner keeps making these mistakes:
+${list}
+Steer the conversation so they need these structures, and when they get one right, say so briefly. When they repeat a mistake, recast their sentence correctly and give a one-line reminder of the rule. Don't turn the conversation into a quiz or list the mistakes up front.`;
+  }
+
+  private reportFailure(error: unknown, retry: () => void): void {
+    const kind = classifyError(error);
+    if (kind === 'cancelled') return; // The learner moved on; there is nothing to retry
+    console.error(error);
+    this.failedRequest.set({ kind, message: TUTOR_ERROR_MESSAGES[kind], retry });
+  }
+
+  retryFailedRequest(): void {
+    const failed = this.failedRequest();
+    if (!failed || this.isLoading()) return;
+    this.failedRequest.set(null);
+    failed.retry();
+  }
+
+  dismissFailedRequest(): void {
+    this.failedRequest.set(null);
+  }
+
+  // --- Streaming ---
+  /** Renders a partially streamed tutor reply and starts speaking finished sentences. */
+  private showStreamedText(text: string): void {
+    const reply = this.streamedReply;
+    if (!reply) return;
+
+    reply.text = text;
+    if (!reply.shown) {
+      reply.shown = true;
+      this.messages.update(current => [...current, { role: 'model', text }]);
+      if (this.chatMode() === 'voice' && 'speechSynthesis' in window) {
+        window.speechSynthesis.cancel();
+      }
+    } else {
+      this.messages.update(current => [...current.slice(0, -1), { ...current[current.length - 1], text }]);
+    }
+    this.speakStreamedSentences(text, false);
+  }
+
+  /**
+   * Queues every sentence of `text` that has not been spoken yet. Mid-stream only complete
+   * sentences are queued; once the reply is final the remainder is queued as well.
+   */
+  private speakStreamedSentences(text: string, isFinal: boolean): void {
+    const reply = this.streamedReply;
+    if (this.chatMode() !== 'voice' || !reply) return;
+
+    // A reply that had to be regenerated can differ from what was streamed: start it over
+    if (isFinal && reply.spokenUpTo > 0 && !text.startsWith(reply.text.slice(0, reply.spokenUpTo))) {
+      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+      reply.spokenUpTo = 0;
+    }
+
+    const pending = text.slice(reply.spokenUpTo);
+    const ready = isFinal ? pending : pending.match(/^[\s\S]*[.!?…](?=\s)/)?.[0];
+    if (!ready) return;
+
+    if (reply.spokenUpTo === 0 && !reply.shown && 'speechSynthesis' in window) {
+      window.speechSynthesis.cancel(); // Nothing was streamed; behave like a fresh reply
+    }
+    reply.spokenUpTo += ready.length;
+    ready.split(/(?<=[.!?…])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0)
+      .forEach(sentence => this.queueSpeech(sentence));
+  }
   
   private speak(text: string, onEndCallback?: () => void): void {
     if (!('speechSynthesis' in window)) {
@@ -434,6 +666,15 @@ The JSON object must have the following properties:
     }
     
     window.speechSynthesis.cancel();
+    this.queueSpeech(text, onEndCallback);
+  }
+
+  /** Adds an utterance behind whatever is currently being spoken. */
+  private queueSpeech(text: string, onEndCallback?: () => void): void {
+    if (!('speechSynthesis' in window)) {
+        onEndCallback?.();
+        return;
+    }
 
     const utterance = new SpeechSynthesisUtterance(text);
     utterance.rate = this.userSettings().speakingRate;
@@ -441,11 +682,15 @@ The JSON object must have the following properties:
       utterance.voice = this.frenchVoice;
     }
     utterance.lang = 'fr-FR';
-    utterance.onstart = () => this.isSpeaking.set(true);
-    utterance.onend = () => {
-        this.isSpeaking.set(false);
+    const finish = () => {
+        this.queuedUtterances = Math.max(0, this.queuedUtterances - 1);
+        if (this.queuedUtterances === 0) {
+          this.isSpeaking.set(false);
+        }
         onEndCallback?.();
     };
+    utterance.onstart = () => this.isSpeaking.set(true);
+    utterance.onend = finish;
     utterance.onerror = (event) => {
       if (event.error === 'interrupted') {
         console.log('Speech synthesis interrupted by user action.');
@@ -453,9 +698,9 @@ The JSON object must have the following properties:
         console.error('Speech synthesis error:', event.error);
         this.error.set(`An error occurred during speech playback: ${event.error}`);
       }
-      this.isSpeaking.set(false);
-      onEndCallback?.();
+      finish();
     };
+    this.queuedUtterances++;
     window.speechSynthesis.speak(utterance);
   }
 
@@ -486,59 +731,82 @@ The JSON object must have the following properties:
     }
   }
 
+  // --- Inline Corrections ---
+  readonly mistakeCategoryLabels = MISTAKE_CATEGORY_LABELS;
+
+  markedMessage(message: Message): MarkedMessage {
+    return markCorrections(message.text, message.corrections ?? []);
+  }
+
+  /** Files a correction from the chat in the mistake log, for practice later on. */
+  saveCorrection(message: Message, correction: Correction): void {
+    if (correction.saved) return;
+    this.mistakeLogService.logMistakes([{
+      user_text: correction.original,
+      correction: correction.corrected,
+      explanation: correction.explanation,
+      category: correction.category,
+    }]);
+    const saved = { ...correction, saved: true };
+    this.messages.update(current => current.map(m =>
+      m === message ? { ...m, corrections: m.corrections?.map(c => c === correction ? saved : c) } : m));
+  }
+
+  // --- Tap-to-Lookup ---
+  messageTokens(text: string): TextToken[] {
+    return tokenizeText(text);
+  }
+
+  async openWordLookup(word: string, sentence: string, event: MouseEvent): Promise<void> {
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const showAbove = rect.bottom > window.innerHeight * 0.6;
+    const state: WordLookupState = {
+      word,
+      entry: this.wordLookupService.cached(word),
+      error: null,
+      top: showAbove ? null : rect.bottom + 8,
+      bottom: showAbove ? window.innerHeight - rect.top + 8 : null,
+      left: Math.max(8, Math.min(rect.left, window.innerWidth - this.lookupPopoverWidth - 8)),
+    };
+    this.wordLookup.set(state);
+    if (state.entry) return;
+
+    try {
+      const entry = await this.wordLookupService.lookup(word, sentence);
+      // Only fill in the popover if the learner hasn't moved on to another word
+      this.wordLookup.update(current => current?.word === word ? { ...current, entry } : current);
+    } catch (e) {
+      const kind = classifyError(e);
+      this.wordLookup.update(current => current?.word === word ? { ...current, error: TUTOR_ERROR_MESSAGES[kind] } : current);
+    }
+  }
+
+  closeWordLookup(): void {
+    this.wordLookup.set(null);
+  }
+
   // --- Vocabulary & SRS Logic ---
   addWordToBank(wordToAdd: VocabularyItem): void {
-    this.vocabularyBank.update(currentBank => {
-      if (currentBank.some(item => item.word.toLowerCase() === wordToAdd.word.toLowerCase())) {
-        return currentBank;
-      }
-      
+    if (this.vocabularyService.addWord(wordToAdd)) {
       this.sessionStats.wordsSaved++;
-
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      const newItem: VocabularyBankItem = {
-        ...wordToAdd,
-        srsLevel: 0,
-        nextReviewDate: tomorrow.toISOString().split('T')[0],
-      };
-
-      return [...currentBank, newItem];
-    });
+      if (!this.isLoading() && this.messages().length) this.saveCheckpoint();
+    }
   }
   
   isWordInBank(word: VocabularyItem): boolean {
-    return this.vocabularyBank().some(item => item.word.toLowerCase() === word.word.toLowerCase());
+    return this.vocabularyService.isInBank(word);
   }
 
-  reviewWord(wordToReview: VocabularyBankItem): void {
-    this.vocabularyBank.update(currentBank => {
-      const wordIndex = currentBank.findIndex(item => item.word.toLowerCase() === wordToReview.word.toLowerCase());
-      if (wordIndex === -1) {
-        return currentBank;
-      }
-
-      const updatedWord = { ...currentBank[wordIndex] };
-      updatedWord.srsLevel += 1;
-      
-      const interval = this.srsIntervalsDays[Math.min(updatedWord.srsLevel, this.srsIntervalsDays.length - 1)];
-      
-      const nextReview = new Date();
-      nextReview.setHours(0, 0, 0, 0);
-      nextReview.setDate(nextReview.getDate() + interval);
-      updatedWord.nextReviewDate = nextReview.toISOString().split('T')[0];
-
-      const newBank = [...currentBank];
-      newBank[wordIndex] = updatedWord;
-      return newBank;
-    });
-    this.xpGained.emit(15);
+  reviewWord({ item, grade }: { item: VocabularyBankItem; grade: RecallGrade }): void {
+    this.vocabularyService.review(item, grade);
+    this.xpGained.emit(grade === 'again' ? 5 : 15); // Honest misses still earn something
   }
 
   // --- Micro-Lesson Logic ---
   async startMicroLesson(suggestion: MicroLessonSuggestion): Promise<void> {
-    this.savedConversationState.set({ messages: this.messages(), history: this.geminiService.getHistory() });
+    // Let any reply still in flight fail and clean up before the conversation is saved
+    await this.geminiService.cancelPendingRequests();
+    this.savedConversationState.set({ messages: this.messages(), conversation: this.geminiService.getConversation() });
     this.microLessonSuggestion.set(null);
 
     const topic = this.grammarTopicsData.find(t => t.title === suggestion.topic);
@@ -553,18 +821,24 @@ The JSON object must have the following properties:
     this.isLoading.set(true);
     this.messages.set([]);
     this.error.set(null);
+    this.failedRequest.set(null);
 
     try {
-      const { modelResponse } = await this.geminiService.startNewConversation(topic.systemInstruction, topic.openingPrompt);
+      this.streamedReply = { shown: false, text: '', spokenUpTo: 0 };
+      const { modelResponse } = await this.geminiService.startNewConversation(
+        topic.systemInstruction,
+        topic.openingPrompt,
+        text => this.showStreamedText(text),
+      );
       this.messages.set([modelResponse]);
-      if (this.chatMode() === 'voice') {
-        this.speak(modelResponse.text);
-      }
+      this.speakStreamedSentences(modelResponse.text, true);
     } catch (e) {
-      this.error.set('Could not start the micro-lesson. Please try again.');
-      console.error(e);
-      this.endMicroLesson(); // Restore conversation on error
+      // Quietly go back to the conversation; the learner can retry the lesson from there
+      this.restoreSavedConversation();
+      this.activeMicroLesson.set(null);
+      this.reportFailure(e, () => this.startMicroLesson(suggestion));
     } finally {
+      this.streamedReply = null;
       this.isLoading.set(false);
     }
   }
@@ -574,12 +848,7 @@ The JSON object must have the following properties:
   }
 
   endMicroLesson(): void {
-    const savedState = this.savedConversationState();
-    if (savedState) {
-      this.messages.set(savedState.messages);
-      this.geminiService.setHistory(savedState.history);
-      this.savedConversationState.set(null);
-    }
+    this.restoreSavedConversation();
     this.activeMicroLesson.set(null);
     const resumeMessage: Message = { role: 'model', text: "Super ! Continuons notre conversation." };
     this.messages.update(current => [...current, resumeMessage]);
@@ -588,6 +857,15 @@ The JSON object must have the following properties:
     }
   }
 
+  private restoreSavedConversation(): void {
+    const savedState = this.savedConversationState();
+    if (savedState) {
+      this.messages.set(savedState.messages);
+      this.geminiService.restoreConversation(savedState.conversation);
+      this.savedConversationState.set(null);
+    }
+  }
+
   // --- Listening Exercise Logic ---
   selectAnswer(questionIndex: number, optionIndex: number): void {
     this.selectedAnswers.update(currentMap => {
@@ -620,16 +898,21 @@ The JSON object must have the following properties:
     this.showVocabularyBank.update(v => !v);
   }
 
-  exitSpecialMode(): void {
-    if (this.activeMicroLesson()) {
-      this.endMicroLesson();
-    } else {
+  async exitSpecialMode(): Promise<void> {
+    const inMicroLesson = this.activeMicroLesson() !== null;
+    await this.geminiService.cancelPendingRequests();
+    if (!inMicroLesson) {
       this.endSessionAndShowReview();
+    } else if (this.activeMicroLesson()) {
+      // A lesson that was cancelled while starting has already gone back to the conversation
+      this.endMicroLesson();
     }
   }
 
   // --- Session Review Logic ---
   async endSessionAndShowReview(): Promise<void> {
+    this.isSessionOver = true;
+    this.sessionCheckpointService.clear(); // The learner chose to end it, so there is nothing to resume
     if (this.messages().filter(m => m.role === 'user').length < 1 && !this.activeListeningExercise()) {
       this.sessionEnded.emit(this.sessionStats);
       return;
@@ -642,51 +925,60 @@ The JSON object must have the following properties:
     this.isReviewLoading.set(true);
     this.showSessionReview.set(true);
 
-    const savedWords = new Set(this.vocabularyBank().map(item => item.word.toLowerCase()));
     const allVocabInSession = this.messages().flatMap(msg => msg.vocabulary || []);
     const uniqueVocabMap = new Map<string, VocabularyItem>();
     allVocabInSession.forEach(item => {
-      uniqueVocabMap.set(item.word.toLowerCase(), item);
+      uniqueVocabMap.set((item.lemma ?? item.word).toLowerCase(), item);
     });
     
     const uniqueVocab = Array.from(uniqueVocabMap.values());
-    this.unsavedWordsFromSession.set(uniqueVocab.filter(item => !savedWords.has(item.word.toLowerCase())));
+    this.unsavedWordsFromSession.set(uniqueVocab.filter(item => !this.vocabularyService.isInBank(item)));
+
+    if (this.usageService.capState() !== 'ok') {
+      this.isReviewSkipped.set(true);
+      this.isReviewLoading.set(false);
+      return;
+    }
 
     const reviewData = await this.geminiService.getSessionReview(this.messages());
     this.sessionReviewData.set(reviewData);
+    if (reviewData) {
+      this.mistakeLogService.logMistakes(reviewData.recurringMistakes);
+    }
     this.isReviewLoading.set(false);
   }
 
   closeSessionReview(): void {
+    this.archiveSession();
     this.showSessionReview.set(false);
     this.sessionReviewData.set(null);
+    this.isReviewSkipped.set(false);
     this.unsavedWordsFromSession.set([]);
     this.sessionEnded.emit(this.sessionStats);
   }
 
-  saveAllUnsavedWords(): void {
-    this.unsavedWordsFromSession().forEach(word => this.addWordToBank(word));
-    this.unsavedWordsFromSession.set([]);
+  /** Keeps the finished session so it can be re-read from the history screen. */
+  private archiveSession(): void {
+    const state = this.initialState();
+    this.sessionHistoryService.record({
+      mode: state.type,
+      title: this.sessionTitle(),
+      tutorName: state.tutor.name,
+      startedAt: this.sessionStartedAt.toISOString(),
+      endedAt: new Date().toISOString(),
+      messages: this.messages(),
+      review: this.sessionReviewData(),
+      wordsSaved: this.sessionStats.wordsSaved,
+    });
   }
 
-  // --- Utility ---
-  private saveToStorage(key: string, data: any): void {
-    try {
-      localStorage.setItem(key, JSON.stringify(data));
-    } catch (e) {
-      console.error(`Failed to save to local storage (key: ${key}):`, e);
-    }
+  private sessionTitle(): string {
+    const state = this.initialState();
+    return state.type === 'free-talk' ? 'Free Talk' : state.data.title;
   }
 
-  private loadFromStorage<T>(key: string): T | null {
-    try {
-      const storedData = localStorage.getItem(key);
-      if (storedData) {
-        return JSON.parse(storedData) as T;
-      }
-    } catch (e) {
-      console.error(`Failed to load from local storage (key: ${key}):`, e);
-    }
-    return null;
+  saveAllUnsavedWords(): void {
+    this.unsavedWordsFromSession().forEach(word => this.addWordToBank(word));
+    this.unsavedWordsFromSession.set([]);
   }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { UserSettings } from '../../app.component';
+import { CredentialsService } from '../../services/credentials.service';
+import { GeminiService } from '../../services/gemini.service';
+import { LlmProviderId } from '../../services/llm-provider';
+import { TUTOR_ERROR_MESSAGES, classifyError } from '../../services/tutor-error';
+
+const PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'Local Server',
+  'mock': 'Offline Demo',
+};
+
+@Component({
+  selector: 'app-credentials',
+  templateUrl: './credentials.component.html',
+  imports: [CommonModule],
+})
+export class CredentialsComponent {
+  private credentialsService = inject(CredentialsService);
+  private geminiService = inject(GeminiService);
+
+  userSettings = input.required<UserSettings>();
+  close = output<void>();
+  credentialsChanged = output<void>();
+
+  apiKeyInput = signal('');
+  passphraseInput = signal('');
+  isBusy = signal(false);
+  errorMessage = signal<string | null>(null);
+  notice = signal<string | null>(null);
+
+  provider = computed(() => this.userSettings().llmProvider);
+  providerLabel = computed(() => PROVIDER_LABELS[this.provider()]);
+  keyRequired = computed(() => this.credentialsService.requiresKey(this.provider()));
+  status = computed(() => this.credentialsService.status(this.provider()));
+  isEncrypted = computed(() => this.credentialsService.isEncrypted(this.provider()));
+
+  onApiKeyInput(event: Event): void {
+    this.apiKeyInput.set((event.target as HTMLInputElement).value);
+  }
+
+  onPassphraseInput(event: Event): void {
+    this.passphraseInput.set((event.target as HTMLInputElement).value);
+  }
+
+  /** Checks the key with a small request first, so a typo is caught here rather than mid-session. */
+  async testAndSave(): Promise<void> {
+    const apiKey = this.apiKeyInput().trim();
+    if (!apiKey || this.isBusy()) return;
+
+    this.isBusy.set(true);
+    this.errorMessage.set(null);
+    this.notice.set(null);
+    const settings = this.userSettings();
+    try {
+      await this.geminiService.testConnection({
+        provider: settings.llmProvider,
+        model: settings.llmModel,
+        baseUrl: settings.llmBaseUrl,
+        apiKey,
+      });
+      const passphrase = this.passphraseInput();
+      await this.credentialsService.saveKey(settings.llmProvider, apiKey, passphrase || undefined);
+      this.apiKeyInput.set('');
+      this.passphraseInput.set('');
+      this.notice.set(passphrase ? 'Key verified and saved (encrypted).' : 'Key verified and saved.');
+      this.credentialsChanged.emit();
+    } catch (e) {
+      this.errorMessage.set(TUTOR_ERROR_MESSAGES[classifyError(e)]);
+    } finally {
+      this.isBusy.set(false);
+    }
+  }
+
+  async unlock(): Promise<void> {
+    const passphrase = this.passphraseInput();
+    if (!passphrase || this.isBusy()) return;
+
+    this.isBusy.set(true);
+    this.errorMessage.set(null);
+    const unlocked = await this.credentialsService.unlock(this.provider(), passphrase);
+    this.isBusy.set(false);
+    if (!unlocked) {
+      this.errorMessage.set('That passphrase is not correct.');
+      return;
+    }
+    this.passphraseInput.set('');
+    this.notice.set('Key unlocked for this visit.');
+    this.credentialsChanged.emit();
+  }
+
+  removeKey(): void {
+    this.credentialsService.removeKey(this.provider());
+    this.errorMessage.set(null);
+    this.notice.set('Key removed.');
+    this.credentialsChanged.emit();
+  }
+
+  closeModal(): void {
+    this.close.emit();
+  }
+}
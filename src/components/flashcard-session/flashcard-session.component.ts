@@ -0,0 +1,130 @@
+import { Component, input, output, signal, computed, effect, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { UserSettings } from '../../app.component';
+import { RecallGrade } from '../../services/gemini.service';
+import { VocabularyService } from '../../services/vocabulary.service';
+import { AnswerMatch, Flashcard, buildFlashcards, checkTypedAnswer, gradeForMatch } from '../../services/flashcards';
+
+@Component({
+  selector: 'app-flashcard-session',
+  templateUrl: './flashcard-session.component.html',
+  imports: [CommonModule],
+})
+export class FlashcardSessionComponent {
+  private vocabularyService = inject(VocabularyService);
+
+  userSettings = input.required<UserSettings>();
+  xpGained = output<number>();
+  sessionEnded = output<void>();
+
+  private readonly maxCardsPerSession = 20;
+
+  cards = signal<Flashcard[]>([]);
+  currentIndex = signal(0);
+  isRevealed = signal(false);
+  typedAnswer = signal('');
+  answerMatch = signal<AnswerMatch | null>(null);
+  results = signal<Record<RecallGrade, number>>({ again: 0, hard: 0, good: 0, easy: 0 });
+  xpEarned = signal(0);
+
+  readonly grades: { grade: RecallGrade; label: string; classes: string }[] = [
+    { grade: 'again', label: 'Again', classes: 'bg-red-500 hover:bg-red-600 focus:ring-red-500' },
+    { grade: 'hard', label: 'Hard', classes: 'bg-amber-500 hover:bg-amber-600 focus:ring-amber-500' },
+    { grade: 'good', label: 'Good', classes: 'bg-emerald-500 hover:bg-emerald-600 focus:ring-emerald-500' },
+    { grade: 'easy', label: 'Easy', classes: 'bg-sky-500 hover:bg-sky-600 focus:ring-sky-500' },
+  ];
+
+  currentCard = computed(() => this.cards()[this.currentIndex()] ?? null);
+  isFinished = computed(() => this.cards().length > 0 && this.currentIndex() >= this.cards().length);
+  progressPercentage = computed(() => this.cards().length ? (this.currentIndex() / this.cards().length) * 100 : 0);
+  reviewedCount = computed(() => Object.values(this.results()).reduce((sum, count) => sum + count, 0));
+
+  /** What the learner has to type for the current card, or null for self-graded cards. */
+  expectedAnswer = computed(() => {
+    const card = this.currentCard();
+    if (!card || card.kind === 'recognize') return null;
+    return card.kind === 'cloze' ? card.cloze!.answer : card.item.word;
+  });
+
+  /** Grade the typed answer earned; the learner may only upgrade a correct answer to 'easy'. */
+  suggestedGrade = computed(() => {
+    const match = this.answerMatch();
+    return match ? gradeForMatch(match) : null;
+  });
+
+  constructor() {
+    // Snapshot the due words once; reviewing them changes the due list underneath us
+    const due = this.vocabularyService.wordsDueForReview().slice(0, this.maxCardsPerSession);
+    this.cards.set(buildFlashcards(due, 'speechSynthesis' in window));
+
+    effect(() => {
+      const card = this.currentCard();
+      if (card?.kind === 'listen') {
+        this.speak(card.item.word);
+      }
+    });
+  }
+
+  onAnswerInput(event: Event): void {
+    this.typedAnswer.set((event.target as HTMLInputElement).value);
+  }
+
+  reveal(): void {
+    this.isRevealed.set(true);
+  }
+
+  submitAnswer(event: Event): void {
+    event.preventDefault();
+    const expected = this.expectedAnswer();
+    if (expected === null || this.isRevealed()) return;
+
+    this.answerMatch.set(checkTypedAnswer(this.typedAnswer(), expected));
+    this.isRevealed.set(true);
+    const card = this.currentCard();
+    if (card) {
+      this.speak(card.item.word);
+    }
+  }
+
+  grade(grade: RecallGrade): void {
+    const card = this.currentCard();
+    if (!card) return;
+
+    this.vocabularyService.review(card.item, grade);
+    const xp = grade === 'again' ? 5 : 15; // Same as reviewing from the vocabulary bank
+    this.xpGained.emit(xp);
+    this.xpEarned.update(total => total + xp);
+    this.results.update(results => ({ ...results, [grade]: results[grade] + 1 }));
+
+    // Forgotten words come back once at the end of the session
+    if (grade === 'again' && card.repeats === 0) {
+      this.cards.update(cards => [...cards, { ...card, repeats: card.repeats + 1 }]);
+    }
+
+    this.currentIndex.update(i => i + 1);
+    this.isRevealed.set(false);
+    this.typedAnswer.set('');
+    this.answerMatch.set(null);
+  }
+
+  speak(text: string): void {
+    if (!('speechSynthesis' in window)) return;
+
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = this.userSettings().speakingRate;
+    const voice = window.speechSynthesis.getVoices().find(v => v.lang.startsWith('fr'));
+    if (voice) {
+      utterance.voice = voice;
+    }
+    utterance.lang = 'fr-FR';
+    window.speechSynthesis.speak(utterance);
+  }
+
+  endSession(): void {
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+    this.sessionEnded.emit();
+  }
+}
@@ -6,8 +6,12 @@ import { Component, ChangeDetectionStrategy, input, output, computed } from '@an
 import { CommonModule } from '@angular/common';
 import { Scenario } from '../scenario-selection/scenario-selection.component';
 import { GrammarTopic } from '../grammar-selection/grammar-selection.component';
-import { ChatInitialState } from '../chat/chat.component';
+import { SessionStart } from '../chat/chat.component';
 import { ListeningExercise, Tutor, UserSettings } from '../../app.component';
+import { DEFAULT_MODELS, LlmProviderId, LlmTask, LlmTaskSettings } from '../../services/llm-provider';
+import { CredentialStatus } from '../../services/credentials.service';
+import { DailyUsage, UsageCapState } from '../../services/usage.service';
+import { Profile } from '../../services/storage.service';
 
 @Component({
   selector: 'app-landing',
@@ -25,10 +29,26 @@ export class LandingComponent {
   currentStreak = input.required<number>();
   tutors = input.required<Tutor[]>();
   userSettings = input.required<UserSettings>();
+  apiKeyBlocker = input<Exclude<CredentialStatus, 'ready'> | null>(null);
+  usageToday = input.required<DailyUsage>();
+  usageThisWeek = input.required<DailyUsage[]>();
+  usageCapState = input.required<UsageCapState>();
+  dueWordCount = input(0);
+  unresolvedMistakeCount = input(0);
+  dueMistakeCount = input(0);
+  profile = input<Profile | null>(null);
 
-  startSession = output<ChatInitialState>();
+  startSession = output<SessionStart>();
   viewAchievements = output<void>();
   settingsChanged = output<UserSettings>();
+  manageApiKey = output<void>();
+  manageBackup = output<void>();
+  switchProfile = output<void>();
+  startReview = output<void>();
+  studyText = output<void>();
+  viewHistory = output<void>();
+  viewProgress = output<void>();
+  viewMistakes = output<void>();
 
   activeTutor = computed(() => {
     const tutors = this.tutors();
@@ -37,8 +57,33 @@ export class LandingComponent {
     return tutors.find(t => t.name === settings.tutorName) || tutors[0];
   });
 
+  readonly llmTasks: { id: LlmTask; label: string }[] = [
+    { id: 'conversation', label: 'Conversation' },
+    { id: 'listening', label: 'Listening exercises' },
+    { id: 'review', label: 'Session review' },
+    { id: 'summary', label: 'History summaries' },
+    { id: 'lookup', label: 'Word lookups' },
+    { id: 'extraction', label: 'Text vocabulary extraction' },
+  ];
+
+  tokensToday = computed(() => this.usageToday().promptTokens + this.usageToday().outputTokens);
+
+  requestCapPercentage = computed(() => this.capPercentage(this.usageToday().requests, this.userSettings().dailyRequestCap));
+  tokenCapPercentage = computed(() => this.capPercentage(this.tokensToday(), this.userSettings().dailyTokenCap));
+
+  // Bar heights for the last 7 days, relative to the busiest day
+  weeklyTokenBars = computed(() => {
+    const days = this.usageThisWeek();
+    const max = Math.max(1, ...days.map(day => day.promptTokens + day.outputTokens));
+    return days.map(day => ({
+      date: day.date,
+      tokens: day.promptTokens + day.outputTokens,
+      height: ((day.promptTokens + day.outputTokens) / max) * 100,
+    }));
+  });
+
   onStartFreeTalk(): void {
-    this.startSession.emit({ type: 'free-talk' } as ChatInitialState);
+    this.startSession.emit({ type: 'free-talk' });
   }
 
   onStartScenario(scenario: Scenario): void {
@@ -53,10 +98,42 @@ export class LandingComponent {
     this.startSession.emit({ type: 'listening', data: exercise });
   }
 
+  onStartReview(): void {
+    this.startReview.emit();
+  }
+
+  onStudyText(): void {
+    this.studyText.emit();
+  }
+
+  onViewHistory(): void {
+    this.viewHistory.emit();
+  }
+
+  onViewProgress(): void {
+    this.viewProgress.emit();
+  }
+
+  onViewMistakes(): void {
+    this.viewMistakes.emit();
+  }
+
+  onSwitchProfile(): void {
+    this.switchProfile.emit();
+  }
+
+  onManageBackup(): void {
+    this.manageBackup.emit();
+  }
+
   onViewAchievements(): void {
     this.viewAchievements.emit();
   }
 
+  onManageApiKey(): void {
+    this.manageApiKey.emit();
+  }
+
   changeTutor(tutorName: string): void {
     if (this.userSettings().tutorName === tutorName) return;
     this.settingsChanged.emit({ ...this.userSettings(), tutorName });
@@ -65,4 +142,60 @@ export class LandingComponent {
   changeSpeakingRate(rate: number): void {
     this.settingsChanged.emit({ ...this.userSettings(), speakingRate: rate });
   }
-}
\ No newline at end of file
+
+  changeRequestCap(event: Event): void {
+    this.settingsChanged.emit({ ...this.userSettings(), dailyRequestCap: this.parseCap(event) });
+  }
+
+  changeTokenCap(event: Event): void {
+    this.settingsChanged.emit({ ...this.userSettings(), dailyTokenCap: this.parseCap(event) });
+  }
+
+  changeProvider(provider: LlmProviderId): void {
+    if (this.userSettings().llmProvider === provider) return;
+    // Model names only mean something to the provider they were entered for; parameters carry over
+    const llmTasks = Object.fromEntries(
+      Object.entries(this.userSettings().llmTasks).map(([task, settings]) => [task, { ...settings, model: undefined }]),
+    );
+    this.settingsChanged.emit({ ...this.userSettings(), llmProvider: provider, llmModel: DEFAULT_MODELS[provider], llmTasks });
+  }
+
+  changeModel(event: Event): void {
+    const llmModel = (event.target as HTMLInputElement).value.trim();
+    if (!llmModel) return;
+    this.settingsChanged.emit({ ...this.userSettings(), llmModel });
+  }
+
+  changeBaseUrl(event: Event): void {
+    const llmBaseUrl = (event.target as HTMLInputElement).value.trim();
+    if (!llmBaseUrl) return;
+    this.settingsChanged.emit({ ...this.userSettings(), llmBaseUrl });
+  }
+
+  /** Updates one per-task override; an empty field goes back to the default. */
+  changeTaskSetting(task: LlmTask, field: keyof LlmTaskSettings, event: Event): void {
+    const raw = (event.target as HTMLInputElement).value.trim();
+    let value: string | number | undefined = raw || undefined;
+    if (raw && field === 'temperature') {
+      value = Math.min(2, Math.max(0, Number(raw)));
+    } else if (raw && field === 'maxOutputTokens') {
+      value = Math.floor(Number(raw)) > 0 ? Math.floor(Number(raw)) : undefined;
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      value = undefined;
+    }
+
+    const llmTasks = this.userSettings().llmTasks;
+    this.settingsChanged.emit({ ...this.userSettings(), llmTasks: { ...llmTasks, [task]: { ...llmTasks[task], [field]: value } } });
+  }
+
+  // An empty or invalid field means "no cap"
+  private parseCap(event: Event): number {
+    const value = Math.floor(Number((event.target as HTMLInputElement).value));
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  }
+
+  private capPercentage(used: number, cap: number): number | null {
+    return cap > 0 ? Math.min(100, (used / cap) * 100) : null;
+  }
+}
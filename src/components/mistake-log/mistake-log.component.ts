@@ -0,0 +1,116 @@
+import { Component, output, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AnswerMatch, checkTypedAnswer, gradeForMatch } from '../../services/flashcards';
+import { LoggedMistake, MISTAKE_CATEGORY_LABELS, MistakeLogService, isResolved } from '../../services/mistake-log.service';
+
+@Component({
+  selector: 'app-mistake-log',
+  templateUrl: './mistake-log.component.html',
+  imports: [CommonModule],
+})
+export class MistakeLogComponent {
+  private mistakeLogService = inject(MistakeLogService);
+
+  close = output<void>();
+  workOnMistakes = output<LoggedMistake[]>();
+  xpGained = output<number>();
+
+  // How many unresolved mistakes a "Work on my mistakes" session is seeded with
+  private readonly maxFocusMistakes = 5;
+
+  readonly categoryLabels = MISTAKE_CATEGORY_LABELS;
+
+  mistakes = this.mistakeLogService.mistakes;
+  groups = this.mistakeLogService.byCategory;
+  dueCount = computed(() => this.mistakeLogService.dueForPractice().length);
+  unresolvedCount = computed(() => this.mistakeLogService.unresolved().length);
+
+  confirmingDeleteId = signal<string | null>(null);
+
+  // Practice state
+  queue = signal<LoggedMistake[]>([]);
+  currentIndex = signal(0);
+  typedAnswer = signal('');
+  answerMatch = signal<AnswerMatch | null>(null);
+  correctCount = signal(0);
+
+  isPractising = computed(() => this.queue().length > 0);
+  current = computed(() => this.queue()[this.currentIndex()] ?? null);
+  isFinished = computed(() => this.isPractising() && this.currentIndex() >= this.queue().length);
+
+  isResolved(mistake: LoggedMistake): boolean {
+    return isResolved(mistake);
+  }
+
+  isDue(mistake: LoggedMistake): boolean {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return new Date(mistake.nextReviewDate) <= today;
+  }
+
+  startPractice(): void {
+    // Snapshot the due list; practising changes it underneath us
+    this.queue.set([...this.mistakeLogService.dueForPractice()]);
+    this.currentIndex.set(0);
+    this.correctCount.set(0);
+    this.resetAnswer();
+  }
+
+  onAnswerInput(event: Event): void {
+    this.typedAnswer.set((event.target as HTMLInputElement).value);
+  }
+
+  checkAnswer(event: Event): void {
+    event.preventDefault();
+    const mistake = this.current();
+    if (!mistake || this.answerMatch()) return;
+    this.answerMatch.set(checkTypedAnswer(this.typedAnswer(), mistake.correction));
+  }
+
+  next(): void {
+    const mistake = this.current();
+    const match = this.answerMatch();
+    if (!mistake || !match) return;
+
+    const grade = gradeForMatch(match);
+    this.mistakeLogService.practice(mistake, grade);
+    this.xpGained.emit(grade === 'again' ? 5 : 15); // Same as reviewing a word
+    if (grade !== 'again') {
+      this.correctCount.update(count => count + 1);
+    }
+    this.currentIndex.update(i => i + 1);
+    this.resetAnswer();
+  }
+
+  endPractice(): void {
+    this.queue.set([]);
+    this.resetAnswer();
+  }
+
+  startFocusSession(): void {
+    this.workOnMistakes.emit(this.mistakeLogService.unresolved().slice(0, this.maxFocusMistakes));
+  }
+
+  /** Deletes on the second press, for mistakes the review got wrong. */
+  delete(mistake: LoggedMistake): void {
+    if (this.confirmingDeleteId() !== mistake.id) {
+      this.confirmingDeleteId.set(mistake.id);
+      return;
+    }
+    this.mistakeLogService.delete(mistake.id);
+    this.confirmingDeleteId.set(null);
+  }
+
+  cancelDelete(): void {
+    this.confirmingDeleteId.set(null);
+  }
+
+  closeLog(): void {
+    this.close.emit();
+  }
+
+  private resetAnswer(): void {
+    this.typedAnswer.set('');
+    this.answerMatch.set(null);
+  }
+}
@@ -0,0 +1,87 @@
+import { Component, output, signal, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PROFILE_AVATARS, Profile, StorageService } from '../../services/storage.service';
+
+interface ProfileDraft {
+  id: string | null; // null while creating a new profile
+  name: string;
+  avatar: string;
+}
+
+@Component({
+  selector: 'app-profile-picker',
+  templateUrl: './profile-picker.component.html',
+  imports: [CommonModule],
+})
+export class ProfilePickerComponent {
+  private storageService = inject(StorageService);
+
+  profileChosen = output<void>();
+
+  readonly avatars = PROFILE_AVATARS;
+  readonly maxNameLength = 24;
+  profiles = this.storageService.profiles;
+  activeProfile = this.storageService.activeProfile;
+
+  isManaging = signal(false);
+  draft = signal<ProfileDraft | null>(null);
+  confirmingDeleteId = signal<string | null>(null);
+
+  choose(profile: Profile): void {
+    if (this.isManaging()) {
+      this.edit(profile);
+      return;
+    }
+    this.storageService.switchProfile(profile.id);
+    this.profileChosen.emit();
+  }
+
+  toggleManaging(): void {
+    this.isManaging.update(managing => !managing);
+    this.confirmingDeleteId.set(null);
+  }
+
+  startCreating(): void {
+    // Offer an avatar nobody else has picked yet
+    const taken = new Set(this.profiles().map(p => p.avatar));
+    this.draft.set({ id: null, name: '', avatar: this.avatars.find(a => !taken.has(a)) ?? this.avatars[0] });
+  }
+
+  edit(profile: Profile): void {
+    this.draft.set({ id: profile.id, name: profile.name, avatar: profile.avatar });
+  }
+
+  onNameInput(event: Event): void {
+    const name = (event.target as HTMLInputElement).value;
+    this.draft.update(draft => draft ? { ...draft, name } : draft);
+  }
+
+  pickAvatar(avatar: string): void {
+    this.draft.update(draft => draft ? { ...draft, avatar } : draft);
+  }
+
+  saveDraft(): void {
+    const draft = this.draft();
+    if (!draft || !draft.name.trim()) return;
+    if (draft.id) {
+      this.storageService.updateProfile(draft.id, { name: draft.name, avatar: draft.avatar });
+    } else {
+      this.storageService.createProfile(draft.name, draft.avatar);
+    }
+    this.draft.set(null);
+  }
+
+  cancelDraft(): void {
+    this.draft.set(null);
+  }
+
+  deleteProfile(profile: Profile, event: Event): void {
+    event.stopPropagation();
+    if (this.confirmingDeleteId() !== profile.id) {
+      this.confirmingDeleteId.set(profile.id);
+      return;
+    }
+    this.storageService.deleteProfile(profile.id);
+    this.confirmingDeleteId.set(null);
+  }
+}
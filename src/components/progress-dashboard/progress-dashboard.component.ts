@@ -0,0 +1,79 @@
+import { Component, output, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SESSION_MODES, SessionHistoryService } from '../../services/session-history.service';
+import { VocabularyService } from '../../services/vocabulary.service';
+import { BreakdownRow, METRIC_KEYS, MetricKey, breakdown, metricTrend, weeklyActivity } from '../../services/progress-analytics';
+
+@Component({
+  selector: 'app-progress-dashboard',
+  templateUrl: './progress-dashboard.component.html',
+  imports: [CommonModule],
+})
+export class ProgressDashboardComponent {
+  private sessionHistoryService = inject(SessionHistoryService);
+  private vocabularyService = inject(VocabularyService);
+
+  close = output<void>();
+
+  readonly weeksShown = 8;
+  // Trend chart drawing area, in SVG units
+  readonly chartWidth = 300;
+  readonly chartHeight = 100;
+
+  readonly metrics: Record<MetricKey, { label: string; color: string }> = {
+    fluency: { label: 'Fluency', color: 'text-teal-500' },
+    accuracy: { label: 'Accuracy', color: 'text-indigo-500' },
+    vocabularyUsage: { label: 'Vocabulary', color: 'text-amber-500' },
+  };
+
+  sessions = this.sessionHistoryService.sessions;
+
+  trend = computed(() => metricTrend(this.sessions()));
+
+  /** One polyline per metric, plus its latest score and the change since the first point shown. */
+  trendLines = computed(() => {
+    const points = this.trend();
+    const step = points.length > 1 ? this.chartWidth / (points.length - 1) : 0;
+    return METRIC_KEYS.map(key => ({
+      key,
+      ...this.metrics[key],
+      points: points.map((point, i) => `${(i * step).toFixed(1)},${(this.chartHeight - point.scores[key] / 100 * this.chartHeight).toFixed(1)}`).join(' '),
+      latest: points.length ? points[points.length - 1].scores[key] : null,
+      change: points.length > 1 ? points[points.length - 1].scores[key] - points[0].scores[key] : null,
+    }));
+  });
+
+  weeks = computed(() => weeklyActivity(this.sessions(), this.vocabularyService.words(), this.weeksShown));
+
+  weekBars = computed(() => {
+    const weeks = this.weeks();
+    const max = Math.max(1, ...weeks.map(week => week.sessions));
+    return weeks.map(week => ({ ...week, height: (week.sessions / max) * 100 }));
+  });
+
+  totals = computed(() => this.weeks().reduce(
+    (sum, week) => ({
+      sessions: sum.sessions + week.sessions,
+      minutes: sum.minutes + week.minutes,
+      wordsSaved: sum.wordsSaved + week.wordsSaved,
+      wordsReviewed: sum.wordsReviewed + week.wordsReviewed,
+    }),
+    { sessions: 0, minutes: 0, wordsSaved: 0, wordsReviewed: 0 },
+  ));
+
+  byMode = computed(() => this.withShares(breakdown(this.sessions(), session => SESSION_MODES[session.mode].label)));
+  byTutor = computed(() => this.withShares(breakdown(this.sessions(), session => session.tutorName)));
+
+  formatMinutes(minutes: number): string {
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+  }
+
+  closeDashboard(): void {
+    this.close.emit();
+  }
+
+  private withShares(rows: BreakdownRow[]): (BreakdownRow & { share: number })[] {
+    const total = rows.reduce((sum, row) => sum + row.sessions, 0);
+    return rows.map(row => ({ ...row, share: total ? (row.sessions / total) * 100 : 0 }));
+  }
+}
@@ -0,0 +1,115 @@
+import { Component, input, output, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Message } from '../../services/gemini.service';
+import { Tutor, UserSettings } from '../../app.component';
+import { SESSION_MODES, SessionHistoryService, SessionRecord } from '../../services/session-history.service';
+import { sessionMinutes } from '../../services/progress-analytics';
+
+@Component({
+  selector: 'app-session-history',
+  templateUrl: './session-history.component.html',
+  imports: [CommonModule],
+})
+export class SessionHistoryComponent {
+  private sessionHistoryService = inject(SessionHistoryService);
+
+  userSettings = input.required<UserSettings>();
+  tutors = input.required<Tutor[]>();
+  close = output<void>();
+
+  readonly modeLabels = SESSION_MODES;
+
+  searchQuery = signal('');
+  selectedId = signal<string | null>(null);
+  confirmingDeleteId = signal<string | null>(null);
+
+  sessions = this.sessionHistoryService.sessions;
+
+  filteredSessions = computed(() => {
+    const query = this.searchQuery().trim().toLowerCase();
+    if (!query) return this.sessions();
+    return this.sessions().filter(session =>
+      session.title.toLowerCase().includes(query)
+      || session.tutorName.toLowerCase().includes(query)
+      || session.messages.some(message => this.messageText(message).toLowerCase().includes(query)));
+  });
+
+  selectedSession = computed(() => this.sessions().find(session => session.id === this.selectedId()) ?? null);
+
+  onSearchInput(event: Event): void {
+    this.searchQuery.set((event.target as HTMLInputElement).value);
+  }
+
+  open(session: SessionRecord): void {
+    this.selectedId.set(session.id);
+    this.confirmingDeleteId.set(null);
+  }
+
+  back(): void {
+    this.stopSpeaking();
+    this.selectedId.set(null);
+    this.confirmingDeleteId.set(null);
+  }
+
+  /** Deletes on the second press, so a stray tap can't lose a transcript. */
+  delete(session: SessionRecord): void {
+    if (this.confirmingDeleteId() !== session.id) {
+      this.confirmingDeleteId.set(session.id);
+      return;
+    }
+    this.sessionHistoryService.delete(session.id);
+    this.confirmingDeleteId.set(null);
+    if (this.selectedId() === session.id) {
+      this.back();
+    }
+  }
+
+  cancelDelete(): void {
+    this.confirmingDeleteId.set(null);
+  }
+
+  tutorAvatar(name: string): string | null {
+    return this.tutors().find(tutor => tutor.name === name)?.avatar ?? null;
+  }
+
+  durationMinutes(session: SessionRecord): number {
+    return sessionMinutes(session);
+  }
+
+  /** What was said: for a listening exercise that's the monologue, not the exercise JSON kept in `text`. */
+  messageText(message: Message): string {
+    return message.listeningContent?.monologue ?? message.text;
+  }
+
+  userMessageCount(session: SessionRecord): number {
+    return session.messages.filter(message => message.role === 'user').length;
+  }
+
+  speak(text: string, tutorName: string): void {
+    if (!('speechSynthesis' in window)) return;
+
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = this.userSettings().speakingRate;
+    // The session's own tutor voice if this browser has it, else any French one
+    const voiceName = this.tutors().find(tutor => tutor.name === tutorName)?.voiceName;
+    const voices = window.speechSynthesis.getVoices();
+    const voice = voices.find(v => v.name === voiceName && v.lang.startsWith('fr')) ?? voices.find(v => v.lang.startsWith('fr'));
+    if (voice) {
+      utterance.voice = voice;
+    }
+    utterance.lang = 'fr-FR';
+    window.speechSynthesis.speak(utterance);
+  }
+
+  closeHistory(): void {
+    this.stopSpeaking();
+    this.close.emit();
+  }
+
+  private stopSpeaking(): void {
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+  }
+}
@@ -1,6 +1,7 @@
-import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { SessionReview, VocabularyItem } from '../../services/gemini.service';
+import { reviewDelta } from '../../services/progress-analytics';
 
 @Component({
   selector: 'app-session-review',
@@ -10,11 +11,20 @@ import { SessionReview, VocabularyItem } from '../../services/gemini.service';
 export class SessionReviewComponent {
   isLoading = input.required<boolean>();
   reviewData = input.required<SessionReview | null>();
+  isSkipped = input(false);
   unsavedWords = input.required<VocabularyItem[]>();
+  // The last comparable session's review, if there was one
+  previousReview = input<SessionReview | null>(null);
 
   close = output<void>();
   saveAll = output<void>();
 
+  delta = computed(() => {
+    const current = this.reviewData();
+    const previous = this.previousReview();
+    return current && previous ? reviewDelta(current, previous) : null;
+  });
+
   readonly circumference = 2 * Math.PI * 28; // Corresponds to r="28" in the SVG
 
   calculateScoreOffset(score: number): number {
@@ -0,0 +1,108 @@
+import { Component, output, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReadingText } from '../../app.component';
+import { GeminiService, VocabularyItem } from '../../services/gemini.service';
+import { VocabularyService, isSameWord } from '../../services/vocabulary.service';
+import { TUTOR_ERROR_MESSAGES, classifyError } from '../../services/tutor-error';
+
+interface Candidate {
+  item: VocabularyItem;
+  inBank: boolean;
+}
+
+@Component({
+  selector: 'app-text-import',
+  templateUrl: './text-import.component.html',
+  imports: [CommonModule],
+})
+export class TextImportComponent {
+  private geminiService = inject(GeminiService);
+  private vocabularyService = inject(VocabularyService);
+
+  close = output<void>();
+  startConversation = output<ReadingText>();
+  wordsAdded = output<number>();
+
+  readonly maxChars = this.geminiService.maxExtractionChars;
+  private readonly maxTitleLength = 60;
+
+  textInput = signal('');
+  isExtracting = signal(false);
+  errorMessage = signal<string | null>(null);
+  notice = signal<string | null>(null);
+  extracted = signal<VocabularyItem[] | null>(null);
+  selected = signal<Set<VocabularyItem>>(new Set());
+
+  // Re-checked against the bank, so words just added show as saved
+  candidates = computed<Candidate[]>(() =>
+    (this.extracted() ?? []).map(item => ({ item, inBank: this.vocabularyService.isInBank(item) })));
+  selectableCount = computed(() => this.candidates().filter(c => !c.inBank).length);
+  selectedCount = computed(() => this.candidates().filter(c => !c.inBank && this.selected().has(c.item)).length);
+
+  onTextInput(event: Event): void {
+    this.textInput.set((event.target as HTMLTextAreaElement).value);
+  }
+
+  async findVocabulary(): Promise<void> {
+    const text = this.textInput().trim();
+    if (!text || this.isExtracting()) return;
+
+    this.isExtracting.set(true);
+    this.errorMessage.set(null);
+    this.notice.set(null);
+    try {
+      const items = await this.geminiService.extractVocabulary(text);
+      // The tutor sometimes lists a word twice in different forms
+      const unique = items.filter((item, i) => !items.slice(0, i).some(other => isSameWord(other, item)));
+      this.extracted.set(unique);
+      this.selected.set(new Set(unique.filter(item => !this.vocabularyService.isInBank(item))));
+      if (!unique.length) {
+        this.notice.set('No vocabulary worth studying was found in that text.');
+      }
+    } catch (e) {
+      const kind = classifyError(e);
+      if (kind !== 'cancelled') {
+        console.error(e);
+        this.errorMessage.set(TUTOR_ERROR_MESSAGES[kind]);
+      }
+    } finally {
+      this.isExtracting.set(false);
+    }
+  }
+
+  toggle(item: VocabularyItem): void {
+    this.selected.update(current => {
+      const next = new Set(current);
+      if (!next.delete(item)) next.add(item);
+      return next;
+    });
+  }
+
+  selectAll(selectAll: boolean): void {
+    this.selected.set(selectAll ? new Set(this.candidates().filter(c => !c.inBank).map(c => c.item)) : new Set());
+  }
+
+  addSelected(): void {
+    const toAdd = this.candidates().filter(c => !c.inBank && this.selected().has(c.item)).map(c => c.item);
+    const added = toAdd.filter(item => this.vocabularyService.addWord(item)).length;
+    this.selected.set(new Set());
+    if (added) this.wordsAdded.emit(added);
+    this.notice.set(`Added ${added} ${added === 1 ? 'word' : 'words'} to your vocabulary bank.`);
+  }
+
+  editText(): void {
+    this.extracted.set(null);
+    this.notice.set(null);
+  }
+
+  talkAboutText(): void {
+    const text = this.textInput().trim();
+    const firstLine = text.split('\n')[0].trim();
+    const title = firstLine.length > this.maxTitleLength ? `${firstLine.slice(0, this.maxTitleLength).trimEnd()}…` : firstLine;
+    this.startConversation.emit({ title, text });
+  }
+
+  closeModal(): void {
+    this.close.emit();
+  }
+}
@@ -1,26 +1,143 @@
-import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, output, signal, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { VocabularyBankItem } from '../../services/gemini.service';
+import { CEFR_LEVELS, CefrLevel, PARTS_OF_SPEECH, PartOfSpeech, RecallGrade, VocabularyBankItem } from '../../services/gemini.service';
+import { VocabularyService } from '../../services/vocabulary.service';
+import { nextInterval } from '../../services/srs';
+import { ExportFormat, exportVocabulary } from '../../services/vocabulary-io';
+import { VocabularyImportComponent } from '../vocabulary-import/vocabulary-import.component';
 
 @Component({
   selector: 'app-vocabulary-bank',
   templateUrl: './vocabulary-bank.component.html',
-  imports: [CommonModule],
+  imports: [CommonModule, VocabularyImportComponent],
 })
 export class VocabularyBankComponent {
+  private vocabularyService = inject(VocabularyService);
+
   wordsForReview = input.required<VocabularyBankItem[]>();
   otherWords = input.required<VocabularyBankItem[]>();
   speakingRate = input.required<number>();
   frenchVoice = input.required<SpeechSynthesisVoice | null>();
   close = output<void>();
-  review = output<VocabularyBankItem>();
+  review = output<{ item: VocabularyBankItem; grade: RecallGrade }>();
+  wordsAdded = output<number>();
+
+  readonly grades: { grade: RecallGrade; label: string; classes: string }[] = [
+    { grade: 'again', label: 'Again', classes: 'bg-red-500 hover:bg-red-600 focus:ring-red-500' },
+    { grade: 'hard', label: 'Hard', classes: 'bg-amber-500 hover:bg-amber-600 focus:ring-amber-500' },
+    { grade: 'good', label: 'Good', classes: 'bg-emerald-500 hover:bg-emerald-600 focus:ring-emerald-500' },
+    { grade: 'easy', label: 'Easy', classes: 'bg-sky-500 hover:bg-sky-600 focus:ring-sky-500' },
+  ];
+
+  readonly exportFormats: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+    { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+    { format: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+    { format: 'anki', label: 'Anki', extension: 'txt', mimeType: 'text/plain' },
+  ];
+
+  readonly partsOfSpeech = PARTS_OF_SPEECH;
+  readonly cefrLevels = CEFR_LEVELS;
+  readonly decks = this.vocabularyService.decks;
+  readonly tags = this.vocabularyService.tags;
+
+  isImporting = signal(false);
+  importMessage = signal<string | null>(null);
+
+  // Search and filters apply to both lists
+  searchQuery = signal('');
+  tagFilter = signal<string | null>(null);
+  partOfSpeechFilter = signal<PartOfSpeech | null>(null);
+  levelFilter = signal<CefrLevel | null>(null);
+  deckFilter = signal<string | null>(null);
+  showDeckManager = signal(false);
+  editingWord = signal<string | null>(null);
+
+  isFiltering = computed(() => !!this.searchQuery().trim() || this.tagFilter() !== null || this.partOfSpeechFilter() !== null
+    || this.levelFilter() !== null || this.deckFilter() !== null);
+  filteredWordsForReview = computed(() => this.wordsForReview().filter(item => this.matchesFilters(item)));
+  filteredOtherWords = computed(() => this.otherWords().filter(item => this.matchesFilters(item)));
 
   closeModal(): void {
     this.close.emit();
   }
 
-  onReview(item: VocabularyBankItem): void {
-    this.review.emit(item);
+  onReview(item: VocabularyBankItem, grade: RecallGrade): void {
+    this.review.emit({ item, grade });
+  }
+
+  onSearch(event: Event): void {
+    this.searchQuery.set((event.target as HTMLInputElement).value);
+  }
+
+  /** Reads a filter <select>, where the empty option means "any". */
+  onFilterChange<T extends string>(filter: { set(value: T | null): void }, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    filter.set(value === '' ? null : value as T);
+  }
+
+  clearFilters(): void {
+    this.searchQuery.set('');
+    this.tagFilter.set(null);
+    this.partOfSpeechFilter.set(null);
+    this.levelFilter.set(null);
+    this.deckFilter.set(null);
+  }
+
+  createDeck(input: HTMLInputElement): void {
+    if (this.vocabularyService.createDeck(input.value)) {
+      input.value = '';
+    }
+  }
+
+  deleteDeck(deck: string): void {
+    if (this.deckFilter() === deck) {
+      this.deckFilter.set(null);
+    }
+    this.vocabularyService.deleteDeck(deck);
+  }
+
+  toggleEditing(item: VocabularyBankItem): void {
+    this.editingWord.update(word => word === item.word ? null : item.word);
+  }
+
+  moveToDeck(item: VocabularyBankItem, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.vocabularyService.moveToDeck(item, value === '' ? null : value);
+  }
+
+  /** Tags are typed as a comma- or space-separated list. */
+  updateTags(item: VocabularyBankItem, event: Event): void {
+    this.vocabularyService.setTags(item, (event.target as HTMLInputElement).value.split(/[\s,]+/));
+  }
+
+  openImport(): void {
+    this.importMessage.set(null);
+    this.isImporting.set(true);
+  }
+
+  onImported(count: number): void {
+    this.isImporting.set(false);
+    if (count) this.wordsAdded.emit(count);
+    this.importMessage.set(`Imported ${count} ${count === 1 ? 'word' : 'words'}.`);
+  }
+
+  exportBank(option: { format: ExportFormat; extension: string; mimeType: string }): void {
+    const content = exportVocabulary([...this.wordsForReview(), ...this.otherWords()], option.format);
+    const url = URL.createObjectURL(new Blob([content], { type: `${option.mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `french-companion-vocabulary-${new Date().toISOString().split('T')[0]}.${option.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /** When the word would come back after answering `grade`, e.g. "3d" or "2mo". */
+  getIntervalLabel(item: VocabularyBankItem, grade: RecallGrade): string {
+    const days = nextInterval(item, grade);
+    if (days === 0) return 'today';
+    if (days < 30) return `${days}d`;
+    if (days < 365) return `${Math.round(days / 30)}mo`;
+    return `${Math.round(days / 365)}y`;
   }
   
   speakWord(word: string): void {
@@ -39,6 +156,26 @@ export class VocabularyBankComponent {
     window.speechSynthesis.speak(utterance);
   }
 
+  genderLabel(item: VocabularyBankItem): string | null {
+    if (!item.gender) return null;
+    return item.gender === 'masculine' ? 'm.' : 'f.';
+  }
+
+  private matchesFilters(item: VocabularyBankItem): boolean {
+    const query = this.searchQuery().trim().toLowerCase();
+    if (query && ![item.word, item.translation, item.lemma ?? '', item.example].some(text => text.toLowerCase().includes(query))) {
+      return false;
+    }
+    const tag = this.tagFilter();
+    const partOfSpeech = this.partOfSpeechFilter();
+    const level = this.levelFilter();
+    const deck = this.deckFilter();
+    return (tag === null || item.tags.includes(tag))
+      && (partOfSpeech === null || item.partOfSpeech === partOfSpeech)
+      && (level === null || item.cefrLevel === level)
+      && (deck === null || item.deck === deck);
+  }
+
   getDaysUntilReview(dateString: string): string {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
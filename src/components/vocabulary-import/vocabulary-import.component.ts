@@ -0,0 +1,105 @@
+import { Component, output, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { VocabularyService } from '../../services/vocabulary.service';
+import {
+  IMPORT_FIELDS, ImportField, ImportMapping, ParsedTable,
+  buildImportPreview, columnCount, guessMapping, parseDelimited,
+} from '../../services/vocabulary-io';
+
+@Component({
+  selector: 'app-vocabulary-import',
+  templateUrl: './vocabulary-import.component.html',
+  imports: [CommonModule],
+})
+export class VocabularyImportComponent {
+  private vocabularyService = inject(VocabularyService);
+
+  cancel = output<void>();
+  imported = output<number>();
+
+  readonly fields = IMPORT_FIELDS;
+  readonly fieldLabels: Record<ImportField, string> = {
+    word: 'French word *',
+    translation: 'Translation *',
+    example: 'Example',
+    lemma: 'Lemma',
+    partOfSpeech: 'Part of speech',
+    gender: 'Gender',
+    cefrLevel: 'CEFR level',
+    tags: 'Tags',
+    deck: 'Deck',
+    srsLevel: 'SRS level',
+    nextReviewDate: 'Next review date',
+    ease: 'Ease',
+    stability: 'Interval (days)',
+    lapses: 'Lapses',
+    lastReviewDate: 'Last review date',
+  };
+  private readonly previewLimit = 50;
+
+  fileName = signal<string | null>(null);
+  table = signal<ParsedTable | null>(null);
+  mapping = signal<ImportMapping>({});
+  errorMessage = signal<string | null>(null);
+
+  columns = computed(() => {
+    const table = this.table();
+    if (!table) return [];
+    return Array.from({ length: columnCount(table) }, (_, i) => ({
+      index: i,
+      label: table.hasHeader && table.rows[0][i] ? `${i + 1}: ${table.rows[0][i]}` : `Column ${i + 1}`,
+    }));
+  });
+
+  preview = computed(() => {
+    const table = this.table();
+    if (!table) return [];
+    return buildImportPreview(table, this.mapping(), this.vocabularyService.words());
+  });
+
+  visiblePreview = computed(() => this.preview().slice(0, this.previewLimit));
+  hiddenPreviewCount = computed(() => Math.max(0, this.preview().length - this.previewLimit));
+  newCount = computed(() => this.preview().filter(row => row.status === 'new').length);
+  duplicateCount = computed(() => this.preview().filter(row => row.status === 'duplicate').length);
+  invalidCount = computed(() => this.preview().filter(row => row.status === 'invalid').length);
+  isMappingComplete = computed(() => this.mapping().word !== undefined && this.mapping().translation !== undefined);
+
+  async onFileSelected(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+
+    this.errorMessage.set(null);
+    try {
+      const table = parseDelimited(await file.text());
+      if (!table.rows.length) {
+        this.errorMessage.set('That file has no rows to import.');
+        this.table.set(null);
+        return;
+      }
+      this.fileName.set(file.name);
+      this.table.set(table);
+      this.mapping.set(guessMapping(table));
+    } catch (e) {
+      console.error('Failed to read vocabulary import file:', e);
+      this.errorMessage.set('That file could not be read. Please choose a CSV or TSV file.');
+    }
+  }
+
+  toggleHeader(event: Event): void {
+    const hasHeader = (event.target as HTMLInputElement).checked;
+    this.table.update(table => table ? { ...table, hasHeader } : table);
+  }
+
+  changeMapping(field: ImportField, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.mapping.update(mapping => {
+      const { [field]: _, ...rest } = mapping;
+      return value === '' ? rest : { ...rest, [field]: Number(value) };
+    });
+  }
+
+  confirmImport(): void {
+    const items = this.preview().filter(row => row.status === 'new').map(row => row.item!);
+    this.imported.emit(this.vocabularyService.importWords(items));
+  }
+}
@@ -0,0 +1,266 @@
+import { UserProgress } from '../app.component';
+import { VocabularyBankItem } from './gemini.service';
+import { SessionRecord } from './session-history.service';
+import { LoggedMistake, isSameMistake } from './mistake-log.service';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, StoreKey } from './storage-migrations';
+import { isSameWord } from './vocabulary.service';
+
+// A single-file copy of everything the learner has built up, for moving to another device or
+// recovering after clearing the browser.
+
+const BACKUP_APP_ID = 'french-companion';
+export const BACKUP_FORMAT_VERSION = 1;
+
+/** The records a backup carries. API keys stay on the device they were entered on. */
+export const BACKUP_KEYS: StoreKey[] = ['progress', 'settings', 'vocab-bank', 'vocab-decks', 'session-history', 'mistake-log'];
+
+export type BackupData = Partial<Record<StoreKey, unknown>>;
+
+export type RestoreMode = 'replace' | 'merge';
+
+interface BackupFile {
+  app: string;
+  formatVersion: number;
+  /** The storage schema the data was saved with, so older backups can be migrated on import. */
+  schemaVersion: number;
+  exportedAt: string;
+  /** SHA-256 of `JSON.stringify(data)`, hex encoded. */
+  checksum: string;
+  data: BackupData;
+}
+
+export interface RestorePreview {
+  data: BackupData;
+  exportedAt: string;
+  xp: { device: number; backup: number };
+  streak: { device: number; backup: number };
+  achievements: { device: number; backup: number; onlyInBackup: number };
+  words: { device: number; backup: number; onlyInBackup: number; newerInBackup: number; onlyOnDevice: number };
+  decks: { device: number; backup: number; onlyInBackup: number };
+  sessions: { device: number; backup: number; onlyInBackup: number };
+  mistakes: { device: number; backup: number; onlyInBackup: number };
+  settingsDiffer: boolean;
+}
+
+/** Thrown by `readBackup` when a file can't be restored; the message is shown to the learner. */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export async function createBackup(data: BackupData, now = new Date()): Promise<string> {
+  const file: BackupFile = {
+    app: BACKUP_APP_ID,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: LATEST_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Checks a backup file and compares it with what's on the device. Throws `BackupError` if the file
+ * isn't a backup, was changed after export, or was made by a newer version of the app.
+ */
+export async function readBackup(text: string, device: BackupData): Promise<RestorePreview> {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (e) {
+    throw new BackupError("That file isn't a French Companion backup.");
+  }
+  if (!file || file.app !== BACKUP_APP_ID || typeof file.data !== 'object' || file.data === null) {
+    throw new BackupError("That file isn't a French Companion backup.");
+  }
+  if (file.formatVersion > BACKUP_FORMAT_VERSION || file.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new BackupError('That backup was made by a newer version of the app. Update the app, then try again.');
+  }
+  if (file.checksum !== await sha256(JSON.stringify(file.data))) {
+    throw new BackupError('That backup is damaged or was edited after it was exported, so it can\'t be restored safely.');
+  }
+
+  const data = migrateBackup(file.data, file.schemaVersion);
+  return { data, exportedAt: file.exportedAt, ...compare(device, data) };
+}
+
+/** What the device should hold after restoring `backup` over `device`. */
+export function restoreBackup(device: BackupData, backup: BackupData, mode: RestoreMode): BackupData {
+  if (mode === 'replace') {
+    return Object.fromEntries(BACKUP_KEYS.map(key => [key, backup[key]]));
+  }
+  return {
+    progress: device.progress && backup.progress
+      ? mergeProgress(device.progress as UserProgress, backup.progress as UserProgress)
+      : device.progress ?? backup.progress,
+    // Settings are a device preference; the backup's are only used on a device without any
+    settings: device.settings ?? backup.settings,
+    'vocab-bank': mergeWords(wordsIn(device), wordsIn(backup)),
+    'vocab-decks': union(decksIn(device), decksIn(backup)).sort((a, b) => a.localeCompare(b)),
+    'session-history': mergeSessions(sessionsIn(device), sessionsIn(backup)),
+    'mistake-log': mergeMistakes(mistakesIn(device), mistakesIn(backup)),
+  };
+}
+
+function migrateBackup(data: BackupData, schemaVersion: number): BackupData {
+  const records = new Map(BACKUP_KEYS.filter(key => data[key] !== undefined).map(key => [key, data[key]]));
+  for (const migration of MIGRATIONS.filter(m => m.version > schemaVersion)) {
+    migration.migrate(records, (key, reason) => {
+      throw new BackupError(`Part of that backup can't be read (${key}: ${reason}).`);
+    });
+  }
+
+  const bank = records.get('vocab-bank');
+  if (bank !== undefined && (!Array.isArray(bank) || !bank.every(item => typeof item?.word === 'string' && typeof item?.translation === 'string'))) {
+    throw new BackupError("The vocabulary in that backup can't be read.");
+  }
+  const progress = records.get('progress') as UserProgress | undefined;
+  if (progress !== undefined && typeof progress?.levelIndex !== 'number') {
+    throw new BackupError("The progress in that backup can't be read.");
+  }
+  return Object.fromEntries(records);
+}
+
+function compare(device: BackupData, backup: BackupData): Omit<RestorePreview, 'data' | 'exportedAt'> {
+  const deviceProgress = device.progress as UserProgress | undefined;
+  const backupProgress = backup.progress as UserProgress | undefined;
+  const deviceAchievements = deviceProgress?.unlockedAchievements ?? [];
+  const backupAchievements = backupProgress?.unlockedAchievements ?? [];
+  const deviceWords = wordsIn(device);
+  const backupWords = wordsIn(backup);
+  const deviceDecks = decksIn(device);
+  const backupDecks = decksIn(backup);
+  const deviceSessionIds = sessionsIn(device).map(session => session.id);
+  const backupSessions = sessionsIn(backup);
+  const deviceMistakes = mistakesIn(device);
+  const backupMistakes = mistakesIn(backup);
+
+  return {
+    xp: { device: deviceProgress?.xp ?? 0, backup: backupProgress?.xp ?? 0 },
+    streak: { device: deviceProgress?.currentStreak ?? 0, backup: backupProgress?.currentStreak ?? 0 },
+    achievements: {
+      device: deviceAchievements.length,
+      backup: backupAchievements.length,
+      onlyInBackup: backupAchievements.filter(id => !deviceAchievements.includes(id)).length,
+    },
+    words: {
+      device: deviceWords.length,
+      backup: backupWords.length,
+      onlyInBackup: backupWords.filter(item => !deviceWords.some(other => isSameWord(other, item))).length,
+      newerInBackup: backupWords.filter(item => deviceWords.some(other => isSameWord(other, item) && reviewedLater(item, other))).length,
+      onlyOnDevice: deviceWords.filter(item => !backupWords.some(other => isSameWord(other, item))).length,
+    },
+    decks: {
+      device: deviceDecks.length,
+      backup: backupDecks.length,
+      onlyInBackup: backupDecks.filter(deck => !deviceDecks.includes(deck)).length,
+    },
+    sessions: {
+      device: deviceSessionIds.length,
+      backup: backupSessions.length,
+      onlyInBackup: backupSessions.filter(session => !deviceSessionIds.includes(session.id)).length,
+    },
+    mistakes: {
+      device: deviceMistakes.length,
+      backup: backupMistakes.length,
+      onlyInBackup: backupMistakes.filter(mistake => !deviceMistakes.some(other => isSameMistake(other, mistake))).length,
+    },
+    settingsDiffer: JSON.stringify(device.settings ?? null) !== JSON.stringify(backup.settings ?? null),
+  };
+}
+
+/** Both sets of words; where a word is in both, the copy reviewed most recently wins, keeping the tags from each. */
+function mergeWords(device: VocabularyBankItem[], backup: VocabularyBankItem[]): VocabularyBankItem[] {
+  const merged = [...device];
+  for (const item of backup) {
+    const index = merged.findIndex(other => isSameWord(other, item));
+    if (index === -1) {
+      merged.push(item);
+    } else {
+      const kept = reviewedLater(item, merged[index]) ? item : merged[index];
+      merged[index] = { ...kept, tags: union(merged[index].tags, item.tags) };
+    }
+  }
+  return merged;
+}
+
+// By last review, then by due date, as ISO dates compare correctly as strings
+function reviewedLater(a: VocabularyBankItem, b: VocabularyBankItem): boolean {
+  const lastA = a.lastReviewDate ?? '';
+  const lastB = b.lastReviewDate ?? '';
+  return lastA !== lastB ? lastA > lastB : a.nextReviewDate > b.nextReviewDate;
+}
+
+// Two copies of the same history: keep the furthest either got, and the streak from the most recent session
+function mergeProgress(device: UserProgress, backup: UserProgress): UserProgress {
+  const latest = (backup.lastSessionDate ?? '') > (device.lastSessionDate ?? '') ? backup : device;
+  return {
+    levelIndex: Math.max(device.levelIndex, backup.levelIndex),
+    xp: Math.max(device.xp, backup.xp),
+    lastSessionDate: latest.lastSessionDate,
+    currentStreak: latest.currentStreak,
+    unlockedAchievements: union(device.unlockedAchievements, backup.unlockedAchievements),
+    stats: {
+      sessionsCompleted: Math.max(device.stats.sessionsCompleted, backup.stats.sessionsCompleted),
+      wordsSaved: Math.max(device.stats.wordsSaved, backup.stats.wordsSaved),
+      scenariosCompleted: union(device.stats.scenariosCompleted, backup.stats.scenariosCompleted),
+      grammarCompleted: union(device.stats.grammarCompleted, backup.stats.grammarCompleted),
+    },
+  };
+}
+
+// Sessions never change once archived, so the same id is the same session on both sides
+function mergeSessions(device: SessionRecord[], backup: SessionRecord[]): SessionRecord[] {
+  const ids = new Set(device.map(session => session.id));
+  return [...device, ...backup.filter(session => !ids.has(session.id))]
+    .sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+}
+
+/** Both logs; where a mistake is in both, the copy practised most recently wins, with the higher recurrence count. */
+function mergeMistakes(device: LoggedMistake[], backup: LoggedMistake[]): LoggedMistake[] {
+  const merged = [...device];
+  for (const mistake of backup) {
+    const index = merged.findIndex(other => isSameMistake(other, mistake));
+    if (index === -1) {
+      merged.push(mistake);
+    } else {
+      const kept = practisedLater(mistake, merged[index]) ? mistake : merged[index];
+      merged[index] = { ...kept, occurrences: Math.max(mistake.occurrences, merged[index].occurrences) };
+    }
+  }
+  return merged;
+}
+
+function practisedLater(a: LoggedMistake, b: LoggedMistake): boolean {
+  const lastA = a.lastReviewDate ?? '';
+  const lastB = b.lastReviewDate ?? '';
+  return lastA !== lastB ? lastA > lastB : a.lastSeen > b.lastSeen;
+}
+
+function wordsIn(data: BackupData): VocabularyBankItem[] {
+  return (data['vocab-bank'] as VocabularyBankItem[] | undefined) ?? [];
+}
+
+function decksIn(data: BackupData): string[] {
+  return (data['vocab-decks'] as string[] | undefined) ?? [];
+}
+
+function sessionsIn(data: BackupData): SessionRecord[] {
+  return (data['session-history'] as SessionRecord[] | undefined) ?? [];
+}
+
+function mistakesIn(data: BackupData): LoggedMistake[] {
+  return (data['mistake-log'] as LoggedMistake[] | undefined) ?? [];
+}
+
+function union<T>(a: T[], b: T[]): T[] {
+  return [...new Set([...a, ...b])];
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
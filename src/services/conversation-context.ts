@@ -0,0 +1,111 @@
+import { ConversationTurn } from './llm-provider';
+
+/** Everything needed to put a conversation back exactly as it was. */
+export interface ConversationSnapshot {
+  systemInstruction: string;
+  turns: ConversationTurn[];
+  summary: string;
+  learnerFacts: string[];
+}
+
+/** Older turns selected for summarising, tied to the conversation they came from. */
+export interface CompactionPlan {
+  generation: number;
+  previousSummary: string;
+  learnerFacts: string[];
+  turns: ConversationTurn[];
+}
+
+/**
+ * Holds the conversation that is resent to the model on every turn. Once its approximate
+ * token size passes `tokenBudget`, older turns can be folded into a "conversation so far"
+ * note while the most recent turns are always kept verbatim.
+ */
+export class ConversationContext {
+  private systemInstruction = '';
+  private turns: ConversationTurn[] = [];
+  private summary = '';
+  private learnerFacts: string[] = [];
+  // Bumped whenever the conversation is replaced, so late summaries can't land in the wrong one
+  private generation = 0;
+
+  constructor(
+    private readonly tokenBudget = 6000,
+    private readonly recentTurnsToKeep = 6,
+  ) {}
+
+  start(systemInstruction: string): void {
+    this.restore({ systemInstruction, turns: [], summary: '', learnerFacts: [] });
+  }
+
+  snapshot(): ConversationSnapshot {
+    return {
+      systemInstruction: this.systemInstruction,
+      turns: [...this.turns],
+      summary: this.summary,
+      learnerFacts: [...this.learnerFacts],
+    };
+  }
+
+  restore(snapshot: ConversationSnapshot): void {
+    this.systemInstruction = snapshot.systemInstruction;
+    this.turns = [...snapshot.turns];
+    this.summary = snapshot.summary;
+    this.learnerFacts = [...snapshot.learnerFacts];
+    this.generation++;
+  }
+
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  append(...turns: ConversationTurn[]): void {
+    this.turns.push(...turns);
+  }
+
+  /** The tutor's instructions plus the running summary, if older turns have been compacted. */
+  buildSystemInstruction(): string {
+    if (!this.summary && !this.learnerFacts.length) {
+      return this.systemInstruction;
+    }
+    const facts = this.learnerFacts.map(fact => `- ${fact}`).join('\n');
+    return `${this.systemInstruction}
+
+CONVERSATION SO FAR (summary of earlier turns that are no longer shown):
+${this.summary}
+${facts ? `\nFACTS ABOUT THE LEARNER (stay consistent with these):\n${facts}` : ''}`;
+  }
+
+  /** Rough token count of everything sent with the next request (~4 characters per token). */
+  approximateTokens(): number {
+    const chars = this.buildSystemInstruction().length + this.turns.reduce((sum, turn) => sum + turn.text.length, 0);
+    return Math.ceil(chars / 4);
+  }
+
+  /** Returns the turns to summarise once the budget is exceeded, or null if nothing needs doing. */
+  planCompaction(): CompactionPlan | null {
+    if (this.approximateTokens() <= this.tokenBudget || this.turns.length <= this.recentTurnsToKeep) {
+      return null;
+    }
+    return {
+      generation: this.generation,
+      previousSummary: this.summary,
+      learnerFacts: [...this.learnerFacts],
+      turns: this.turns.slice(0, this.turns.length - this.recentTurnsToKeep),
+    };
+  }
+
+  /** Replaces the planned turns with `summary`. Returns false if the conversation changed meanwhile. */
+  applyCompaction(plan: CompactionPlan, summary: string, learnerFacts: string[]): boolean {
+    if (plan.generation !== this.generation) {
+      return false;
+    }
+    this.turns = this.turns.slice(plan.turns.length);
+    this.summary = summary;
+
+    // Never lose a fact the summariser forgot to repeat
+    const known = new Set(learnerFacts.map(fact => fact.trim().toLowerCase()));
+    this.learnerFacts = [...learnerFacts, ...plan.learnerFacts.filter(fact => !known.has(fact.trim().toLowerCase()))];
+    return true;
+  }
+}
@@ -0,0 +1,114 @@
+import { Correction } from './gemini.service';
+
+// Lays a tutor's corrections over the learner's message, so the chat can show each fix in place.
+
+export interface DiffPart {
+  text: string;
+  kind: 'same' | 'removed' | 'added';
+}
+
+export interface MessageSegment {
+  text: string;
+  correction?: Correction;
+  diff?: DiffPart[]; // Set on segments covered by a correction
+}
+
+export interface MarkedMessage {
+  segments: MessageSegment[];
+  unplaced: Correction[]; // Corrections whose original span isn't in the message as written
+}
+
+/** Splits `text` into plain runs and the spans the corrections apply to, in message order. */
+export function markCorrections(text: string, corrections: Correction[]): MarkedMessage {
+  const lower = text.toLowerCase();
+  const placed: { start: number; end: number; correction: Correction }[] = [];
+  const unplaced: Correction[] = [];
+
+  for (const correction of corrections) {
+    const needle = correction.original.toLowerCase();
+    let start = lower.indexOf(needle);
+    // The same slip can appear twice; take the first occurrence not already covered
+    while (start !== -1 && placed.some(span => start < span.end && start + needle.length > span.start)) {
+      start = lower.indexOf(needle, start + 1);
+    }
+    if (start === -1) {
+      unplaced.push(correction);
+    } else {
+      placed.push({ start, end: start + needle.length, correction });
+    }
+  }
+
+  const segments: MessageSegment[] = [];
+  let last = 0;
+  for (const span of placed.sort((a, b) => a.start - b.start)) {
+    if (span.start > last) {
+      segments.push({ text: text.slice(last, span.start) });
+    }
+    const original = text.slice(span.start, span.end);
+    segments.push({ text: original, correction: span.correction, diff: wordDiff(original, span.correction.corrected) });
+    last = span.end;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last) });
+  }
+  return { segments, unplaced };
+}
+
+/** Word-by-word changes from `original` to `corrected`, via their longest common subsequence. */
+export function wordDiff(original: string, corrected: string): DiffPart[] {
+  const from = original.split(/\s+/).filter(Boolean);
+  const to = corrected.split(/\s+/).filter(Boolean);
+
+  // common[i][j]: length of the longest common subsequence of from[i..] and to[j..]
+  const common = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      common[i][j] = from[i] === to[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const words: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && from[i] === to[j]) {
+      words.push({ text: from[i++], kind: 'same' });
+      j++;
+    } else if (j < to.length && (i === from.length || common[i][j + 1] >= common[i + 1][j])) {
+      words.push({ text: to[j++], kind: 'added' });
+    } else {
+      words.push({ text: from[i++], kind: 'removed' });
+    }
+  }
+
+  // Removals before additions in each changed run reads as "this, replaced by that"
+  const ordered: DiffPart[] = [];
+  for (let k = 0; k < words.length;) {
+    if (words[k].kind === 'same') {
+      ordered.push(words[k++]);
+      continue;
+    }
+    const run: DiffPart[] = [];
+    while (k < words.length && words[k].kind !== 'same') run.push(words[k++]);
+    ordered.push(...run.filter(part => part.kind === 'removed'), ...run.filter(part => part.kind === 'added'));
+  }
+
+  // Merge runs of the same kind, keeping the spaces between words in unchanged text
+  const parts: DiffPart[] = [];
+  for (const part of ordered) {
+    const previous = parts[parts.length - 1];
+    if (!previous) {
+      parts.push({ ...part });
+    } else if (previous.kind === part.kind) {
+      previous.text += ' ' + part.text;
+    } else if (previous.kind === 'same') {
+      previous.text += ' ';
+      parts.push({ ...part });
+    } else if (part.kind === 'same') {
+      parts.push({ text: ' ' + part.text, kind: 'same' });
+    } else {
+      parts.push({ text: ' ', kind: 'same' }, { ...part });
+    }
+  }
+  return parts;
+}
@@ -0,0 +1,124 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { LlmProviderId } from './llm-provider';
+import { StorageService } from './storage.service';
+
+type StoredCredential =
+  | { encrypted: false; apiKey: string }
+  | { encrypted: true; salt: string; iv: string; cipherText: string };
+
+export type CredentialStatus = 'missing' | 'locked' | 'ready';
+
+/** Providers that cannot be used at all without a key. Local servers usually don't need one. */
+const KEY_REQUIRED: Record<LlmProviderId, boolean> = {
+  'gemini': true,
+  'openai-compatible': false,
+  'mock': false,
+};
+
+/**
+ * Stores each learner's own API keys in this browser. Keys can optionally be encrypted with a
+ * passphrase (PBKDF2 + AES-GCM); encrypted keys must be unlocked once per visit.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CredentialsService {
+  private storage = inject(StorageService);
+
+  private stored = signal<Partial<Record<LlmProviderId, StoredCredential>>>({});
+  // Decrypted keys for this visit only; never persisted
+  private unlocked = signal<Partial<Record<LlmProviderId, string>>>({});
+
+  constructor() {
+    this.loadFromStorage();
+    this.storage.onProfileSwitch(() => this.loadFromStorage());
+  }
+
+  requiresKey(provider: LlmProviderId): boolean {
+    return KEY_REQUIRED[provider];
+  }
+
+  status(provider: LlmProviderId): CredentialStatus {
+    const credential = this.stored()[provider];
+    if (!credential) return 'missing';
+    if (credential.encrypted && !this.unlocked()[provider]) return 'locked';
+    return 'ready';
+  }
+
+  isEncrypted(provider: LlmProviderId): boolean {
+    return this.stored()[provider]?.encrypted ?? false;
+  }
+
+  /** The usable key for `provider`, or undefined if none is saved or it is still locked. */
+  getKey(provider: LlmProviderId): string | undefined {
+    const credential = this.stored()[provider];
+    if (!credential) return undefined;
+    if (credential.encrypted === false) return credential.apiKey;
+    return this.unlocked()[provider];
+  }
+
+  async saveKey(provider: LlmProviderId, apiKey: string, passphrase?: string): Promise<void> {
+    let credential: StoredCredential = { encrypted: false, apiKey };
+    if (passphrase) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await this.deriveKey(passphrase, salt);
+      const cipherText = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+      credential = { encrypted: true, salt: toBase64(salt), iv: toBase64(iv), cipherText: toBase64(new Uint8Array(cipherText)) };
+    }
+
+    this.stored.update(current => ({ ...current, [provider]: credential }));
+    this.unlocked.update(current => ({ ...current, [provider]: apiKey }));
+    this.saveToStorage();
+  }
+
+  /** Decrypts a stored key for this visit. Returns false if the passphrase is wrong. */
+  async unlock(provider: LlmProviderId, passphrase: string): Promise<boolean> {
+    const credential = this.stored()[provider];
+    if (!credential?.encrypted) return true;
+
+    try {
+      const key = await this.deriveKey(passphrase, fromBase64(credential.salt));
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(credential.iv) }, key, fromBase64(credential.cipherText));
+      this.unlocked.update(current => ({ ...current, [provider]: new TextDecoder().decode(plain) }));
+      return true;
+    } catch (e) {
+      // AES-GCM authentication fails when the passphrase is wrong
+      return false;
+    }
+  }
+
+  removeKey(provider: LlmProviderId): void {
+    this.stored.update(({ [provider]: _, ...rest }) => rest);
+    this.unlocked.update(({ [provider]: _, ...rest }) => rest);
+    this.saveToStorage();
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: 250_000, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  }
+
+  private loadFromStorage(): void {
+    this.unlocked.set({});
+    this.stored.set(this.storage.get<Partial<Record<LlmProviderId, StoredCredential>>>('credentials') ?? {});
+  }
+
+  private saveToStorage(): void {
+    this.storage.set('credentials', this.stored());
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
@@ -0,0 +1,82 @@
+import { RecallGrade, VocabularyBankItem } from './gemini.service';
+
+export type FlashcardKind = 'recognize' | 'produce' | 'listen' | 'cloze';
+
+export interface Flashcard {
+  item: VocabularyBankItem;
+  kind: FlashcardKind;
+  /** For cloze cards: the example sentence with the word blanked out, and the form that was removed. */
+  cloze?: { sentence: string; answer: string };
+  /** How many times this word has already been asked in the current session. */
+  repeats: number;
+}
+
+/** How close a typed answer was: exact, right apart from accents/article/punctuation, or wrong. */
+export type AnswerMatch = 'exact' | 'close' | 'wrong';
+
+const KIND_ROTATION: FlashcardKind[] = ['recognize', 'produce', 'cloze', 'listen'];
+const ARTICLE = /^(le|la|les|l'|un|une|des|du|de la|de l')\s*/;
+
+/** Gives each word a card type, rotating through them so a session mixes all four. */
+export function buildFlashcards(items: VocabularyBankItem[], canSpeak: boolean): Flashcard[] {
+  return items.map((item, i) => {
+    let kind = KIND_ROTATION[i % KIND_ROTATION.length];
+    const cloze = kind === 'cloze' ? makeCloze(item.example, item.word) : null;
+    if ((kind === 'cloze' && !cloze) || (kind === 'listen' && !canSpeak)) {
+      kind = 'produce';
+    }
+    return { item, kind, ...(cloze && kind === 'cloze' ? { cloze } : {}), repeats: 0 };
+  });
+}
+
+/** Blanks the first occurrence of `word` (or `word` without its article) in `example`. */
+export function makeCloze(example: string, word: string): { sentence: string; answer: string } | null {
+  const candidates = [word.trim(), word.trim().replace(ARTICLE, '')].filter(Boolean);
+  for (const candidate of candidates) {
+    const match = new RegExp(escapeRegExp(candidate), 'i').exec(example);
+    if (match) {
+      return {
+        sentence: example.slice(0, match.index) + '_____' + example.slice(match.index + match[0].length),
+        answer: match[0],
+      };
+    }
+  }
+  return null;
+}
+
+/** Compares a typed answer without penalising missing accents or articles too harshly. */
+export function checkTypedAnswer(answer: string, expected: string): AnswerMatch {
+  const typed = normalize(answer);
+  const target = normalize(expected);
+  if (!typed) {
+    return 'wrong';
+  }
+  if (typed === target) {
+    return 'exact';
+  }
+  const loose = (text: string) => stripAccents(text).replace(ARTICLE, '');
+  return loose(typed) === loose(target) ? 'close' : 'wrong';
+}
+
+/** The scheduler grade a typed answer earns; the learner can still upgrade a correct one to 'easy'. */
+export function gradeForMatch(match: AnswerMatch): RecallGrade {
+  const grades: Record<AnswerMatch, RecallGrade> = { exact: 'good', close: 'hard', wrong: 'again' };
+  return grades[match];
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[.!?,;:«»"]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
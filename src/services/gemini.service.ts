@@ -1,15 +1,72 @@
-import { Injectable } from '@angular/core';
-import { GoogleGenAI, Type, GenerateContentResponse, Content } from '@google/genai';
+import { Injectable, inject } from '@angular/core';
+import { Type } from '@google/genai';
+import { ConversationContext, CompactionPlan, ConversationSnapshot } from './conversation-context';
+import { DEFAULT_MODELS, LlmProvider, LlmProviderConfig, LlmRequest, LlmResult, LlmTask, LlmTaskSettings, LlmUsage } from './llm-provider';
+import { GeminiProvider } from './providers/gemini.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { MockProvider } from './providers/mock.provider';
+import { extractPartialStringField } from './partial-json';
+import { TutorServiceError, classifyError } from './tutor-error';
+import { UsageService } from './usage.service';
+import { TutorPayload, Validator, validateConversationSummary, validateJson, validateListeningPayload, validateSessionReview, validateExtractedVocabulary, validateTutorPayload, validateWordLookup } from './response-validator';
+
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb' | 'pronoun' | 'preposition' | 'conjunction' | 'determiner' | 'interjection' | 'expression';
+export type GrammaticalGender = 'masculine' | 'feminine';
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+export type MistakeCategory = 'verb-conjugation' | 'tense' | 'gender-agreement' | 'articles' | 'prepositions' | 'pronouns' | 'word-order' | 'negation' | 'spelling' | 'vocabulary' | 'other';
 
 export interface VocabularyItem {
   word: string;
   translation: string;
   example: string;
+  // Missing on words saved before the tutor reported them, and on most imports
+  lemma?: string; // Dictionary form, e.g. "beau" for "belle"
+  partOfSpeech?: PartOfSpeech;
+  gender?: GrammaticalGender; // Nouns only
+  cefrLevel?: CefrLevel;
+}
+
+export const PARTS_OF_SPEECH: readonly PartOfSpeech[] = ['noun', 'verb', 'adjective', 'adverb', 'pronoun', 'preposition', 'conjunction', 'determiner', 'interjection', 'expression'];
+export const CEFR_LEVELS: readonly CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+export const MISTAKE_CATEGORIES: readonly MistakeCategory[] = ['verb-conjugation', 'tense', 'gender-agreement', 'articles', 'prepositions', 'pronouns', 'word-order', 'negation', 'spelling', 'vocabulary', 'other'];
+
+/** Appended to every tutor system instruction; describes the JSON `responseSchema` asks for, for providers that can't enforce it. */
+export const TUTOR_JSON_INSTRUCTION = `
+IMPORTANT: Your response MUST be a JSON object.
+The JSON object must have the following properties:
+1. "response": A string containing your conversational reply in French.
+2. "vocabulary": An array of JSON objects. Each object represents a key vocabulary word from your response that would be useful for a learner. For each vocabulary word, provide "word" (French, as used), "translation" (English), "example" (French sentence), "lemma" (dictionary form: infinitive for verbs, masculine singular for nouns and adjectives), "partOfSpeech" (one of: noun, verb, adjective, adverb, pronoun, preposition, conjunction, determiner, interjection, expression), "gender" ("masculine" or "feminine", nouns only) and "cefrLevel" (A1 to C2). If no new words, use an empty array.
+3. "pronunciationFeedback": (Optional) An object providing feedback on the user's pronunciation based on their most recent message. If feedback is not applicable (e.g., first message, unintelligible input), omit this property. The object must contain:
+   - "score": An integer from 1 to 5, where 1 is poor and 5 is excellent.
+   - "feedback": A short, constructive string explaining what was good and what could be improved.
+   - "tip": A single, practical tip for improvement.
+4. "microLessonSuggestion": (Optional) If you detect that the user is making the same grammatical mistake multiple times (at least 2-3 times), suggest a micro-lesson. Do NOT suggest a lesson after only one mistake. The object must contain:
+   - "topic": A string that EXACTLY matches the title of one of these available grammar topics: 'Present Tense (Le Présent)', 'Gender of Nouns (Le Genre)', 'Past Tense (Le Passé Composé)'.
+   - "reason": A short, friendly string in English explaining why you're suggesting this lesson.
+5. "corrections": (Optional) An array of fixes to mistakes in the user's most recent message. Omit it, or use an empty array, if the message has no mistakes. Each object must contain:
+   - "original": The incorrect words, quoted EXACTLY as the user wrote them (keep it short: just the words that change, plus a little context if needed).
+   - "corrected": The corrected version of those words.
+   - "category": One of: ${MISTAKE_CATEGORIES.join(', ')}.
+   - "explanation": A short string in English explaining the rule.`;
+
+export type RecallGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewLogEntry {
+  date: string; // ISO Date String (YYYY-MM-DD)
+  grade: RecallGrade;
+  intervalDays: number; // Interval scheduled by this review
 }
 
 export interface VocabularyBankItem extends VocabularyItem {
-  srsLevel: number;
+  srsLevel: number; // Successful reviews in a row; reset by 'again'
   nextReviewDate: string; // ISO Date String (YYYY-MM-DD)
+  ease: number; // Interval multiplier for 'good' answers (SM-2 ease factor)
+  stability: number; // Current interval in days
+  lapses: number; // Times the word was forgotten after being learned
+  lastReviewDate: string | null;
+  reviewHistory: ReviewLogEntry[];
+  tags: string[];
+  deck: string | null; // Name of a user-defined deck
 }
 
 export interface PronunciationFeedback {
@@ -18,6 +75,15 @@ export interface PronunciationFeedback {
   tip: string;
 }
 
+/** A fix to part of the learner's message, as the tutor spotted it during the turn. */
+export interface Correction {
+  original: string; // The span as the learner wrote it
+  corrected: string;
+  category: MistakeCategory;
+  explanation: string;
+  saved?: boolean; // Added to the mistake log from the chat
+}
+
 // --- New Interfaces for Listening Comprehension ---
 export interface Question {
   questionText: string;
@@ -35,8 +101,10 @@ export interface Message {
   text: string;
   vocabulary?: VocabularyItem[];
   pronunciationFeedback?: PronunciationFeedback;
+  corrections?: Correction[]; // Fixes to this (user) message
   microLessonSuggestion?: MicroLessonSuggestion;
   listeningContent?: ListeningContent;
+  reviewedWords?: string[]; // Due bank words the learner used correctly in this message
 }
 
 export interface MicroLessonSuggestion {
@@ -47,6 +115,7 @@ export interface MicroLessonSuggestion {
 export interface GeminiResponse {
   modelResponse: Message;
   userFeedback: PronunciationFeedback | null;
+  userCorrections: Correction[];
   microLessonSuggestion?: MicroLessonSuggestion;
 }
 
@@ -60,6 +129,7 @@ export interface Mistake {
   user_text: string;
   correction: string;
   explanation: string;
+  category?: MistakeCategory; // Missing on reviews saved before mistakes were categorised
 }
 
 export interface SessionReview {
@@ -75,9 +145,54 @@ export interface SessionReview {
   providedIn: 'root',
 })
 export class GeminiService {
-  private ai: GoogleGenAI | null = null;
-  private history: Content[] = [];
-  private systemInstruction: string = '';
+  private usageService = inject(UsageService);
+  private provider: LlmProvider | null = null;
+  private config: LlmProviderConfig = { provider: 'gemini', model: DEFAULT_MODELS['gemini'], baseUrl: '' };
+  private context = new ConversationContext();
+  // Summarisation of older turns running in the background, if any
+  private compaction: Promise<void> | null = null;
+  // Aborted by cancelPendingRequests(); every request made before that carries its signal
+  private abortController = new AbortController();
+  private pendingRequests = new Set<Promise<unknown>>();
+
+  // Long articles are cut here; the tail rarely adds words the start doesn't
+  readonly maxExtractionChars = 6000;
+
+  private readonly requestTimeoutsMs: Record<LlmTask, number> = {
+    conversation: 45_000,
+    listening: 60_000,
+    review: 60_000,
+    summary: 60_000,
+    lookup: 20_000,
+    extraction: 60_000,
+  };
+
+  // One vocabulary entry; shared by tutor replies, word lookups and text extraction
+  private readonly vocabularyItemSchema = {
+    type: Type.OBJECT,
+    properties: {
+      word: { type: Type.STRING, description: "The French word, as used." },
+      translation: { type: Type.STRING, description: "The English translation in this context." },
+      example: { type: Type.STRING, description: "An example sentence in French." },
+      lemma: { type: Type.STRING, description: "The dictionary form: masculine singular for adjectives and nouns, infinitive for verbs." },
+      partOfSpeech: { type: Type.STRING, enum: [...PARTS_OF_SPEECH], description: "The part of speech." },
+      gender: { type: Type.STRING, enum: ["masculine", "feminine"], description: "(Nouns only) The grammatical gender." },
+      cefrLevel: { type: Type.STRING, enum: [...CEFR_LEVELS], description: "The CEFR level at which learners usually meet this word." },
+    },
+    required: ["word", "translation", "example", "lemma", "partOfSpeech", "cefrLevel"]
+  };
+
+  private readonly extractionSchema = {
+    type: Type.OBJECT,
+    properties: {
+      vocabulary: {
+        type: Type.ARRAY,
+        description: "Vocabulary worth studying from the text, in order of appearance.",
+        items: this.vocabularyItemSchema,
+      },
+    },
+    required: ["vocabulary"]
+  };
 
   private readonly responseSchema = {
     type: Type.OBJECT,
@@ -86,15 +201,7 @@ export class GeminiService {
       vocabulary: {
         type: Type.ARRAY,
         description: "A list of key vocabulary words from the response.",
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            word: { type: Type.STRING, description: "The French word." },
-            translation: { type: Type.STRING, description: "The English translation." },
-            example: { type: Type.STRING, description: "An example sentence in French." },
-          },
-          required: ["word", "translation", "example"]
-        }
+        items: this.vocabularyItemSchema,
       },
       pronunciationFeedback: {
         type: Type.OBJECT,
@@ -106,6 +213,20 @@ export class GeminiService {
         },
         required: ["score", "feedback", "tip"]
       },
+      corrections: {
+        type: Type.ARRAY,
+        description: "(Optional) Fixes to mistakes in the user's most recent message.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            original: { type: Type.STRING, description: "The incorrect span, quoted exactly as the user wrote it." },
+            corrected: { type: Type.STRING, description: "The corrected version of that span." },
+            category: { type: Type.STRING, enum: [...MISTAKE_CATEGORIES], description: "The grammar category the mistake belongs to." },
+            explanation: { type: Type.STRING, description: "A short explanation in English." }
+          },
+          required: ["original", "corrected", "category", "explanation"]
+        }
+      },
       microLessonSuggestion: {
         type: Type.OBJECT,
         description: "(Optional) If you detect a recurring grammatical error, suggest a micro-lesson.",
@@ -133,9 +254,10 @@ export class GeminiService {
                 properties: {
                     user_text: { type: Type.STRING, description: "The original incorrect text from the user." },
                     correction: { type: Type.STRING, description: "The corrected version of the text." },
-                    explanation: { type: Type.STRING, description: "A simple explanation of the mistake." }
+                    explanation: { type: Type.STRING, description: "A simple explanation of the mistake." },
+                    category: { type: Type.STRING, enum: [...MISTAKE_CATEGORIES], description: "The grammar category the mistake belongs to." }
                 },
-                required: ["user_text", "correction", "explanation"]
+                required: ["user_text", "correction", "explanation", "category"]
             }
         },
         overallSummary: { type: Type.STRING, description: "A brief, encouraging overall summary of the session." }
@@ -143,114 +265,392 @@ export class GeminiService {
     required: ["fluency", "accuracy", "vocabularyUsage", "recurringMistakes", "overallSummary"]
   };
 
+  private readonly summarySchema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING, description: "A compact summary of the conversation so far." },
+      learnerFacts: {
+        type: Type.ARRAY,
+        description: "Short facts about the learner (name, interests, plans, level...).",
+        items: { type: Type.STRING }
+      }
+    },
+    required: ["summary", "learnerFacts"]
+  };
+
   constructor() {
+    this.configure(this.config);
+  }
+
+  /** Switches the backend used for all subsequent requests. */
+  configure(config: LlmProviderConfig): void {
+    this.config = config;
     try {
-      this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      this.provider = this.createProvider(config);
     } catch (error) {
-      console.error('Failed to initialize GoogleGenAI:', error);
+      console.error(`Failed to initialize LLM provider '${config.provider}':`, error);
+      this.provider = null;
     }
   }
 
-  getHistory(): Content[] {
-    return [...this.history];
+  /**
+   * Makes a minimal request with `config` without switching to it, so a key can be checked
+   * before it is saved.
+   * @throws TutorServiceError describing why the provider could not be used.
+   */
+  async testConnection(config: LlmProviderConfig): Promise<void> {
+    try {
+      const provider = this.createProvider(config);
+      if (!provider) {
+        throw new TutorServiceError('auth', 'An API key is required for this provider.');
+      }
+      const { text } = await provider.generate({
+        task: 'conversation',
+        model: config.model,
+        contents: [{ role: 'user', text: 'Reply with {"ok": true}.' }],
+        responseSchema: { type: Type.OBJECT, properties: { ok: { type: Type.BOOLEAN } }, required: ['ok'] },
+        signal: AbortSignal.timeout(this.requestTimeoutsMs.conversation),
+      });
+      JSON.parse(text.trim());
+    } catch (error) {
+      console.error(`Connection test for ${config.provider} failed:`, error);
+      throw new TutorServiceError(classifyError(error), error instanceof Error ? error.message : String(error), error);
+    }
   }
 
-  setHistory(history: Content[]): void {
-    this.history = history;
+  /** Model and generation parameters for `task`, with the configured model as the fallback. */
+  private taskSettings(task: LlmTask): LlmTaskSettings & { model: string } {
+    const overrides = this.config.tasks?.[task] ?? {};
+    return { ...overrides, model: overrides.model?.trim() || this.config.model };
   }
 
-  async startNewConversation(systemInstruction: string, openingPrompt: string): Promise<GeminiResponse> {
-    this.systemInstruction = systemInstruction;
-    this.history = []; // Reset history for a new session
-    return this.sendMessage(openingPrompt);
+  private createProvider(config: LlmProviderConfig): LlmProvider | null {
+    switch (config.provider) {
+      case 'openai-compatible':
+        return new OpenAiCompatibleProvider(config.baseUrl, config.apiKey);
+      case 'mock':
+        return new MockProvider();
+      default:
+        // Without a key every request would fail; callers treat a null provider as an auth problem
+        return config.apiKey ? new GeminiProvider(config.apiKey) : null;
+    }
   }
 
-  private isRateLimitError(error: unknown): boolean {
-    if (error instanceof Error && error.message) {
-      try {
-        const errorDetails = JSON.parse(error.message);
-        if (errorDetails?.error?.code === 429 || errorDetails?.error?.status === 'RESOURCE_EXHAUSTED') {
-          return true;
-        }
-      } catch (e) {
-        // Not a JSON string, fall back to string matching
-      }
-      return error.message.includes('429') || error.message.toLowerCase().includes('resource_exhausted');
-    }
-    return false;
+  getConversation(): ConversationSnapshot {
+    return this.context.snapshot();
   }
 
-  async sendMessage(messageText: string): Promise<GeminiResponse> {
-    if (!this.ai) {
-      throw new Error('AI service is not initialized.');
+  restoreConversation(snapshot: ConversationSnapshot): void {
+    this.context.restore(snapshot);
+  }
+
+  startNewConversation(systemInstruction: string, openingPrompt: string, onResponseText?: (text: string) => void): Promise<GeminiResponse> {
+    this.context.start(systemInstruction); // Reset history for a new session
+    return this.sendMessage(openingPrompt, onResponseText);
+  }
+
+  /** Starts a listening exercise; the reply carries validated `listeningContent`. */
+  startListeningExercise(systemInstruction: string, openingPrompt: string): Promise<GeminiResponse> {
+    this.context.start(systemInstruction);
+    return this.track(this.requestTutorReply('listening', openingPrompt, validateListeningPayload));
+  }
+
+  /**
+   * Sends a learner message. When `onResponseText` is given the reply is streamed and the
+   * callback receives the conversational text decoded so far; vocabulary and feedback are
+   * only available once the returned promise resolves.
+   * @throws TutorServiceError once retries are exhausted or the failure is not retryable, with
+   * kind 'cancelled' if `cancelPendingRequests` was called meanwhile.
+   */
+  sendMessage(messageText: string, onResponseText?: (text: string) => void): Promise<GeminiResponse> {
+    return this.track(this.requestTutorReply('conversation', messageText, validateTutorPayload, onResponseText));
+  }
+
+  /**
+   * Aborts every request in flight and resolves once their callers have seen the resulting
+   * 'cancelled' errors, so the conversation can be changed without a late reply landing in it.
+   */
+  async cancelPendingRequests(): Promise<void> {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+    await Promise.allSettled(this.pendingRequests);
+  }
+
+  // Registered before the caller awaits `request`, so the caller's handlers run before cancelPendingRequests resolves
+  private track<T>(request: Promise<T>): Promise<T> {
+    this.pendingRequests.add(request);
+    const settle = () => this.pendingRequests.delete(request);
+    request.then(settle, settle);
+    return request;
+  }
+
+  private async requestTutorReply(
+    task: LlmTask,
+    messageText: string,
+    validator: Validator<TutorPayload & { listeningContent?: ListeningContent }>,
+    onResponseText?: (text: string) => void,
+  ): Promise<GeminiResponse> {
+    if (!this.provider) {
+      throw new TutorServiceError('auth', 'AI service is not initialized.');
     }
 
+    const cancelSignal = this.abortController.signal;
+    await this.compaction; // Don't race a summary that is rewriting the history we are about to send
+
     const maxRetries = 3;
     let attempt = 0;
     let delay = 1000;
 
     while (attempt < maxRetries) {
       try {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: [...this.history, { role: 'user', parts: [{ text: messageText }] }],
-          config: {
-            systemInstruction: this.systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: this.responseSchema,
-          },
-        });
-        
-        const jsonText = response.text.trim();
-        const data = JSON.parse(jsonText);
+        cancelSignal.throwIfAborted();
+        const request: LlmRequest = {
+          task,
+          ...this.taskSettings(task),
+          contents: [...this.context.getTurns(), { role: 'user', text: messageText }],
+          systemInstruction: this.context.buildSystemInstruction(),
+          responseSchema: this.responseSchema,
+          signal: cancelSignal,
+        };
+        const { value: data, text: jsonText } = await this.generateValidated(request, validator, onResponseText);
+        cancelSignal.throwIfAborted(); // Cancelled just as the reply arrived: it belongs to a conversation that's gone
 
         const modelResponse: Message = {
           role: 'model',
           text: data.response,
           vocabulary: data.vocabulary,
+          listeningContent: data.listeningContent,
         };
         
         const userFeedback = data.pronunciationFeedback || null;
+        const userCorrections = data.corrections ?? [];
         const microLessonSuggestion = data.microLessonSuggestion || undefined;
 
-        this.history.push({ role: 'user', parts: [{ text: messageText }] });
-        this.history.push({ role: 'model', parts: [{ text: jsonText }] });
+        this.context.append({ role: 'user', text: messageText }, { role: 'model', text: jsonText });
+        this.scheduleCompaction();
 
-        return { modelResponse, userFeedback, microLessonSuggestion };
+        return { modelResponse, userFeedback, userCorrections, microLessonSuggestion };
 
       } catch (error) {
-        if (this.isRateLimitError(error) && attempt < maxRetries - 1) {
+        const kind = classifyError(error);
+        if (kind === 'rate-limit' && attempt < maxRetries - 1) {
           console.warn(`Rate limit exceeded. Retrying in ${delay / 1000}s... (Attempt ${attempt + 1}/${maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          // Cancellation cuts the wait short; the next attempt then stops straight away
+          await untilAborted(new Promise(resolve => setTimeout(resolve, delay)), cancelSignal).catch(() => {});
           delay *= 2;
           attempt++;
         } else {
-          console.error('Error sending message to Gemini (final attempt or non-retryable):', error);
-          let errorMessage = 'Désolé, une erreur est survenue. Veuillez réessayer.';
-          
-          if (this.isRateLimitError(error)) {
-             errorMessage = 'Le service est actuellement surchargé. Veuillez patienter un moment avant de réessayer.';
-          } else if (error instanceof Error && error.message.includes('JSON')) {
-            errorMessage = 'Désolé, j\'ai eu un problème avec ma réponse. Essayons encore !';
+          if (kind !== 'cancelled') {
+            console.error(`Error sending message to ${this.config.provider} (final attempt or non-retryable):`, error);
           }
-          
-          return { 
-            modelResponse: { role: 'model', text: errorMessage, vocabulary: [] },
-            userFeedback: null 
-          };
+          throw new TutorServiceError(kind, error instanceof Error ? error.message : String(error), error);
         }
       }
     }
-    
-    return { 
-        modelResponse: { role: 'model', text: 'Désolé, une erreur inattendue est survenue après plusieurs tentatives.', vocabulary: [] },
-        userFeedback: null 
-    };
+
+    throw new TutorServiceError('rate-limit', `Gave up after ${maxRetries} attempts.`);
+  }
+
+  private scheduleCompaction(): void {
+    const plan = this.context.planCompaction();
+    if (!plan || this.compaction) return;
+    this.compaction = this.compactHistory(plan).finally(() => this.compaction = null);
+  }
+
+  /** Folds older turns into the running summary. Failures just leave the full history in place. */
+  private async compactHistory(plan: CompactionPlan): Promise<void> {
+    const transcript = plan.turns
+      .map(turn => `${turn.role === 'user' ? 'Learner' : 'Tutor'}: ${turn.role === 'model' ? this.replyText(turn.text) : turn.text}`)
+      .join('\n');
+
+    const summaryPrompt = `
+    You are maintaining the memory of a French tutoring conversation.
+    Previous summary: ${plan.previousSummary || '(none)'}
+    Known facts about the learner:
+    ${plan.learnerFacts.map(fact => `- ${fact}`).join('\n') || '(none)'}
+
+    New turns to fold into the summary:
+    ${transcript}
+
+    Return a JSON object with:
+    - "summary": an updated summary (max 120 words) covering topics discussed, corrections given, and anything the tutor promised to come back to.
+    - "learnerFacts": the complete list of facts about the learner (name, interests, job, plans, level). Repeat every known fact word for word unless the learner corrected it, then add new ones.
+    `;
+
+    try {
+      const { value } = await this.generateValidated({
+        task: 'summary',
+        ...this.taskSettings('summary'),
+        contents: [{ role: 'user', text: summaryPrompt }],
+        responseSchema: this.summarySchema,
+        signal: this.abortController.signal,
+      }, validateConversationSummary);
+      this.context.applyCompaction(plan, value.summary, value.learnerFacts);
+    } catch (error) {
+      console.warn('Could not summarise older turns; keeping the full history for now.', error);
+    }
+  }
+
+  // Model turns are stored as raw JSON; only the conversational text matters for a summary.
+  private replyText(jsonText: string): string {
+    try {
+      return JSON.parse(jsonText).response ?? jsonText;
+    } catch {
+      return jsonText;
+    }
+  }
+
+  /**
+   * Runs `request` and checks the reply with `validator`. Recoverable problems are repaired in
+   * place; otherwise the model is shown the validation errors and asked once to try again.
+   */
+  private async generateValidated<T>(
+    request: LlmRequest,
+    validator: Validator<T>,
+    onResponseText?: (text: string) => void,
+  ): Promise<{ value: T; text: string }> {
+    let text = await this.generateText(request, onResponseText);
+    let result = validateJson(text, validator);
+
+    if (result.errors.length) {
+      console.warn(`Invalid ${request.task} payload, asking the model to correct it:`, result.errors);
+      const repairRequest: LlmRequest = {
+        ...request,
+        contents: [
+          ...request.contents,
+          { role: 'model', text },
+          { role: 'user', text: `Your previous reply did not match the required JSON schema:\n- ${result.errors.join('\n- ')}\nReply again with a corrected JSON object only.` },
+        ],
+      };
+      // Not streamed: the rejected reply is already on screen, and the caller swaps in the final one
+      text = await this.generateText(repairRequest);
+      result = validateJson(text, validator);
+    }
+
+    if (result.value === null) {
+      throw new Error(`Model returned invalid JSON after a repair attempt: ${result.errors.join(' ')}`);
+    }
+    if (result.repairs.length) {
+      console.warn(`Repaired ${request.task} payload:`, result.repairs);
+    }
+    return { value: result.value, text };
+  }
+
+  /**
+   * Every model call goes through here, so this is where usage is counted, caps are enforced
+   * and each attempt gets its own timeout on top of `request.signal`.
+   */
+  private async generateText(request: LlmRequest, onResponseText?: (text: string) => void): Promise<string> {
+    if (this.usageService.capState() === 'reached') {
+      throw new TutorServiceError('quota', "Today's usage cap has been reached.");
+    }
+    if (request.signal?.aborted) {
+      throw new TutorServiceError('cancelled', 'The request was cancelled.');
+    }
+
+    const timeoutMs = this.requestTimeoutsMs[request.task];
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const signal = request.signal ? AbortSignal.any([request.signal, timeoutSignal]) : timeoutSignal;
+    const attempt = { ...request, signal };
+
+    let result: LlmResult | undefined;
+    try {
+      // Don't rely on every provider honouring the signal promptly
+      result = await untilAborted(
+        onResponseText ? this.collectStream(attempt, onResponseText) : this.provider!.generate(attempt),
+        signal,
+      );
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new TutorServiceError('cancelled', 'The request was cancelled.', error);
+      }
+      if (timeoutSignal.aborted) {
+        throw new TutorServiceError('timeout', `No reply after ${timeoutMs / 1000}s.`, error);
+      }
+      throw error;
+    } finally {
+      this.usageService.record(result?.usage);
+    }
+    return result.text.trim();
+  }
+
+  private async collectStream(request: LlmRequest, onResponseText: (text: string) => void): Promise<LlmResult> {
+    let buffer = '';
+    let lastEmitted = '';
+    let usage: LlmUsage | undefined;
+    for await (const chunk of this.provider!.generateStream(request)) {
+      request.signal?.throwIfAborted(); // Never show text from an abandoned reply
+      buffer += chunk.text;
+      usage = chunk.usage ?? usage;
+      const partial = extractPartialStringField(buffer, 'response');
+      if (partial && partial !== lastEmitted) {
+        lastEmitted = partial;
+        onResponseText(partial);
+      }
+    }
+    return { text: buffer, usage };
+  }
+
+  /** Dictionary entry for `word` as used in `sentence`. Throws `TutorServiceError` on failure. */
+  async lookupWord(word: string, sentence: string): Promise<VocabularyItem> {
+    if (!this.provider) {
+      throw new TutorServiceError('auth', 'AI service is not initialized.');
+    }
+
+    const lookupPrompt = `Word: "${word}"
+    Sentence: "${sentence}"
+
+    Give a learner's dictionary entry for this French word as it is used in the sentence.
+    Your answer MUST be a JSON object that strictly follows the provided schema.`;
+
+    try {
+      const { value } = await this.generateValidated({
+        task: 'lookup',
+        ...this.taskSettings('lookup'),
+        contents: [{ role: 'user', text: lookupPrompt }],
+        responseSchema: this.vocabularyItemSchema,
+        signal: this.abortController.signal,
+      }, validateWordLookup);
+      return value;
+    } catch (error) {
+      throw new TutorServiceError(classifyError(error), error instanceof Error ? error.message : String(error), error);
+    }
+  }
+
+  /** Picks out vocabulary worth studying from a text the learner pasted in. Throws `TutorServiceError` on failure. */
+  async extractVocabulary(text: string): Promise<VocabularyItem[]> {
+    if (!this.provider) {
+      throw new TutorServiceError('auth', 'AI service is not initialized.');
+    }
+
+    const extractionPrompt = `
+    The learner has pasted in this French text to study:
+    """
+    ${text.slice(0, this.maxExtractionChars)}
+    """
+
+    Pick out up to 20 words and expressions a learner would want to study from it, skipping the most basic ones (articles, pronouns, être, avoir...).
+    For each, give the translation as used in the text and, as the example, the sentence from the text where it appears.
+    Your answer MUST be a JSON object that strictly follows the provided schema.
+    `;
+
+    try {
+      const { value } = await this.generateValidated({
+        task: 'extraction',
+        ...this.taskSettings('extraction'),
+        contents: [{ role: 'user', text: extractionPrompt }],
+        responseSchema: this.extractionSchema,
+        signal: this.abortController.signal,
+      }, validateExtractedVocabulary);
+      return value;
+    } catch (error) {
+      throw new TutorServiceError(classifyError(error), error instanceof Error ? error.message : String(error), error);
+    }
   }
 
   async getSessionReview(chatHistory: Message[]): Promise<SessionReview | null> {
-    if (!this.ai) {
-      throw new Error('AI service is not initialized.');
+    if (!this.provider) {
+      throw new TutorServiceError('auth', 'AI service is not initialized.');
     }
 
     const conversationText = chatHistory
@@ -268,26 +668,38 @@ export class GeminiService {
     - Fluency: How naturally and smoothly the learner communicates.
     - Accuracy: Grammatical correctness, verb conjugations, gender agreement, etc.
     - Vocabulary Usage: Range and appropriateness of words used.
-    - Identify 1-3 of the learner's most common recurring mistakes. For each, provide the original text, a correction, and a simple explanation.
+    - Identify 1-3 of the learner's most common recurring mistakes. For each, provide the original text, a correction, a simple explanation, and its category (one of: ${MISTAKE_CATEGORIES.join(', ')}).
+      Quote the learner's whole sentence as the original text, and give the whole corrected sentence as the correction.
     - Provide a brief, encouraging overall summary.
     `;
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [{ role: 'user', parts: [{ text: reviewPrompt }] }],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: this.reviewSchema,
-        },
-      });
-
-      const jsonText = response.text.trim();
-      return JSON.parse(jsonText) as SessionReview;
+      const { value } = await this.generateValidated({
+        task: 'review',
+        ...this.taskSettings('review'),
+        contents: [{ role: 'user', text: reviewPrompt }],
+        responseSchema: this.reviewSchema,
+        signal: this.abortController.signal,
+      }, validateSessionReview);
+      return value;
 
     } catch (error) {
-      console.error('Error getting session review from Gemini:', error);
+      console.error(`Error getting session review from ${this.config.provider}:`, error);
       return null;
     }
   }
 }
+
+/** Rejects with the abort reason as soon as `signal` fires, even if `promise` is still pending. */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  let onAbort: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  // The signal outlives every request made under it, so don't leave a listener behind for each one
+  return Promise.race([promise, aborted]).finally(() => signal.removeEventListener('abort', onAbort));
+}
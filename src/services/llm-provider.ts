@@ -0,0 +1,68 @@
+// --- Provider-agnostic types shared by every LLM backend ---
+
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type LlmTask = 'conversation' | 'listening' | 'review' | 'summary' | 'lookup' | 'extraction';
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  contents: ConversationTurn[];
+  systemInstruction?: string;
+  responseSchema: object; // Gemini-style schema, providers translate it as needed
+  signal?: AbortSignal; // Fires on cancellation or timeout; providers should stop as soon as it does
+  temperature?: number;     // Provider default when omitted
+  maxOutputTokens?: number; // Provider default when omitted
+}
+
+/** Token counts reported by the backend for one request. */
+export interface LlmUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResult {
+  text: string;
+  usage?: LlmUsage; // Absent when the backend doesn't report it
+}
+
+/** A piece of a streamed response; usage usually arrives with the last chunk only. */
+export interface LlmStreamChunk {
+  text: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  generate(request: LlmRequest): Promise<LlmResult>;
+  /** Yields the raw response text in chunks as it arrives. */
+  generateStream(request: LlmRequest): AsyncIterable<LlmStreamChunk>;
+}
+
+export interface LlmProviderConfig {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  apiKey?: string; // The learner's own key, from CredentialsService
+  tasks?: Partial<Record<LlmTask, LlmTaskSettings>>;
+}
+
+/** Per-task overrides, e.g. a fast model for chat and a stronger one for session reviews. */
+export interface LlmTaskSettings {
+  model?: string; // Falls back to LlmProviderConfig.model when empty
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  'mock': 'scripted',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
@@ -0,0 +1,147 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { Mistake, MistakeCategory, RecallGrade } from './gemini.service';
+import { ReviewSchedule, newSchedule, scheduleReview } from './srs';
+import { StorageService } from './storage.service';
+
+/** A mistake from a session review, kept for practice until the learner reliably gets it right. */
+export interface LoggedMistake extends ReviewSchedule {
+  id: string;
+  category: MistakeCategory;
+  userText: string;
+  correction: string;
+  explanation: string;
+  occurrences: number; // Reviews it has come up in
+  firstSeen: string; // ISO timestamp
+  lastSeen: string; // ISO timestamp
+}
+
+/** What a "Work on my mistakes" session is seeded with. */
+export interface MistakeFocus {
+  title: string;
+  mistakes: LoggedMistake[];
+}
+
+export const MISTAKE_CATEGORY_LABELS: Record<MistakeCategory, string> = {
+  'verb-conjugation': 'Verb conjugation',
+  'tense': 'Tenses',
+  'gender-agreement': 'Gender & agreement',
+  'articles': 'Articles',
+  'prepositions': 'Prepositions',
+  'pronouns': 'Pronouns',
+  'word-order': 'Word order',
+  'negation': 'Negation',
+  'spelling': 'Spelling & accents',
+  'vocabulary': 'Word choice',
+  'other': 'Other',
+};
+
+// Correct answers in a row, since the mistake last came up, before it counts as resolved
+const RESOLVED_AFTER = 3;
+
+export function isResolved(mistake: LoggedMistake): boolean {
+  return mistake.srsLevel >= RESOLVED_AFTER;
+}
+
+/** Whether two entries are the same mistake: the same wrong sentence, or the same correction. */
+export function isSameMistake(a: Pick<LoggedMistake, 'userText' | 'correction'>, b: Pick<LoggedMistake, 'userText' | 'correction'>): boolean {
+  return normalize(a.userText) === normalize(b.userText) || normalize(a.correction) === normalize(b.correction);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[’`]/g, "'").replace(/[.!?,;:«»"]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/** The learner's mistakes across sessions, grouped by category and scheduled for re-practice. */
+@Injectable({
+  providedIn: 'root',
+})
+export class MistakeLogService {
+  private storage = inject(StorageService);
+
+  private log = signal<LoggedMistake[]>([]);
+  readonly mistakes = this.log.asReadonly();
+
+  readonly dueForPractice = computed(() => {
+    const now = new Date();
+    now.setHours(0, 0, 0, 0); // Compare dates only, not times
+    return this.log().filter(mistake => new Date(mistake.nextReviewDate) <= now)
+                     .sort((a, b) => a.nextReviewDate.localeCompare(b.nextReviewDate));
+  });
+
+  /** Mistakes not yet resolved, the most frequent and most recent first. */
+  readonly unresolved = computed(() => this.log().filter(mistake => !isResolved(mistake))
+    .sort((a, b) => b.occurrences - a.occurrences || b.lastSeen.localeCompare(a.lastSeen)));
+
+  /** Categories with their mistakes, the category with the most occurrences first. */
+  readonly byCategory = computed(() => {
+    const groups = new Map<MistakeCategory, LoggedMistake[]>();
+    for (const mistake of this.log()) {
+      groups.set(mistake.category, [...groups.get(mistake.category) ?? [], mistake]);
+    }
+    const occurrences = (mistakes: LoggedMistake[]) => mistakes.reduce((sum, mistake) => sum + mistake.occurrences, 0);
+    return [...groups].map(([category, mistakes]) => ({
+      category,
+      label: MISTAKE_CATEGORY_LABELS[category],
+      mistakes: mistakes.sort((a, b) => b.occurrences - a.occurrences || b.lastSeen.localeCompare(a.lastSeen)),
+      occurrences: occurrences(mistakes),
+      unresolved: mistakes.filter(mistake => !isResolved(mistake)).length,
+    })).sort((a, b) => b.occurrences - a.occurrences || a.label.localeCompare(b.label));
+  });
+
+  constructor() {
+    this.loadFromStorage();
+    this.storage.onProfileSwitch(() => this.loadFromStorage());
+  }
+
+  /**
+   * Adds the mistakes from a session review. One already in the log counts as a recurrence:
+   * it is due for practice again straight away, however well it had been going.
+   */
+  logMistakes(mistakes: Mistake[], seenAt = new Date()): void {
+    if (!mistakes.length) return;
+    const updated = [...this.log()];
+    for (const mistake of mistakes) {
+      const entry = {
+        category: mistake.category ?? 'other',
+        userText: mistake.user_text,
+        correction: mistake.correction,
+        explanation: mistake.explanation,
+      };
+      const index = updated.findIndex(other => isSameMistake(other, entry));
+      if (index === -1) {
+        updated.push({ ...entry, ...newSchedule(seenAt), id: crypto.randomUUID(), occurrences: 1, firstSeen: seenAt.toISOString(), lastSeen: seenAt.toISOString() });
+      } else {
+        const existing = updated[index];
+        updated[index] = {
+          ...existing,
+          ...entry,
+          ...newSchedule(seenAt, 0),
+          lapses: existing.srsLevel > 0 ? existing.lapses + 1 : existing.lapses,
+          reviewHistory: existing.reviewHistory,
+          occurrences: existing.occurrences + 1,
+          lastSeen: seenAt.toISOString(),
+        };
+      }
+    }
+    this.log.set(updated);
+    this.saveToStorage();
+  }
+
+  practice(mistake: LoggedMistake, grade: RecallGrade): void {
+    this.log.update(current => current.map(item => item.id === mistake.id ? scheduleReview(item, grade) : item));
+    this.saveToStorage();
+  }
+
+  delete(id: string): void {
+    this.log.update(current => current.filter(mistake => mistake.id !== id));
+    this.saveToStorage();
+  }
+
+  private loadFromStorage(): void {
+    this.log.set(this.storage.get<LoggedMistake[]>('mistake-log') ?? []);
+  }
+
+  private saveToStorage(): void {
+    this.storage.set('mistake-log', this.log());
+  }
+}
@@ -0,0 +1,38 @@
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Reads the (possibly unterminated) value of a top-level string field from a JSON
+ * document that is still being streamed in. Returns null until the field has started.
+ */
+export function extractPartialStringField(json: string, field: string): string | null {
+  const start = json.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (start?.index === undefined) {
+    return null;
+  }
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    // Stop at an escape sequence that hasn't fully arrived yet; the next chunk will complete it.
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+}
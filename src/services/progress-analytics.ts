@@ -0,0 +1,125 @@
+import { SessionReview, VocabularyBankItem } from './gemini.service';
+import { SessionMode, SessionRecord } from './session-history.service';
+
+// Figures for the progress dashboard, worked out from the session archive and the vocabulary
+// bank's review log. Weeks start on Monday; dates are compared as ISO date strings (YYYY-MM-DD),
+// the same way the review scheduler stores them.
+
+export type MetricKey = 'fluency' | 'accuracy' | 'vocabularyUsage';
+
+export const METRIC_KEYS: MetricKey[] = ['fluency', 'accuracy', 'vocabularyUsage'];
+
+export type MetricDelta = Record<MetricKey, number>;
+
+export interface TrendPoint {
+  sessionId: string;
+  endedAt: string;
+  scores: Record<MetricKey, number>;
+}
+
+export interface WeekActivity {
+  weekStart: string; // ISO timestamp of local midnight on the Monday
+  sessions: number;
+  minutes: number;
+  wordsSaved: number;
+  wordsReviewed: number;
+}
+
+export interface BreakdownRow {
+  label: string;
+  sessions: number;
+  minutes: number;
+}
+
+/** Scores of every reviewed session, oldest first, limited to the most recent `limit`. */
+export function metricTrend(sessions: SessionRecord[], limit = 20): TrendPoint[] {
+  return sessions
+    .filter(session => session.review)
+    .sort((a, b) => a.endedAt.localeCompare(b.endedAt))
+    .slice(-limit)
+    .map(session => ({
+      sessionId: session.id,
+      endedAt: session.endedAt,
+      scores: scoresOf(session.review!),
+    }));
+}
+
+/**
+ * The review of the most recent earlier session like this one: the same scenario, grammar topic
+ * or text where there is one, otherwise the same mode.
+ */
+export function previousComparableReview(sessions: SessionRecord[], mode: SessionMode, title: string, before: string): SessionReview | null {
+  const earlier = sessions
+    .filter(session => session.review && session.mode === mode && session.endedAt < before)
+    .sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+  const match = mode === 'free-talk' ? earlier[0] : earlier.find(session => session.title === title) ?? earlier[0];
+  return match?.review ?? null;
+}
+
+export function reviewDelta(current: SessionReview, previous: SessionReview): MetricDelta {
+  const now = scoresOf(current);
+  const then = scoresOf(previous);
+  return { fluency: now.fluency - then.fluency, accuracy: now.accuracy - then.accuracy, vocabularyUsage: now.vocabularyUsage - then.vocabularyUsage };
+}
+
+/** Activity in each of the last `weeks` weeks, oldest first, ending with the current week. */
+export function weeklyActivity(sessions: SessionRecord[], words: VocabularyBankItem[], weeks = 8, today = new Date()): WeekActivity[] {
+  const thisWeek = startOfWeek(today);
+  const starts = Array.from({ length: weeks }, (_, i) => {
+    const start = new Date(thisWeek);
+    start.setDate(start.getDate() - (weeks - 1 - i) * 7);
+    return start;
+  });
+  const reviewDates = words.flatMap(item => item.reviewHistory.map(entry => entry.date));
+
+  return starts.map(start => {
+    const end = new Date(start);
+    end.setDate(end.getDate() + 7);
+    const [from, to] = [isoDate(start), isoDate(end)];
+    const inWeek = sessions.filter(session => {
+      const day = isoDate(new Date(session.endedAt));
+      return day >= from && day < to;
+    });
+    return {
+      weekStart: start.toISOString(),
+      sessions: inWeek.length,
+      minutes: inWeek.reduce((sum, session) => sum + sessionMinutes(session), 0),
+      wordsSaved: inWeek.reduce((sum, session) => sum + session.wordsSaved, 0),
+      wordsReviewed: reviewDates.filter(date => date >= from && date < to).length,
+    };
+  });
+}
+
+/** Sessions and minutes grouped by `key`, busiest first. */
+export function breakdown(sessions: SessionRecord[], key: (session: SessionRecord) => string): BreakdownRow[] {
+  const rows = new Map<string, BreakdownRow>();
+  for (const session of sessions) {
+    const label = key(session);
+    const row = rows.get(label) ?? { label, sessions: 0, minutes: 0 };
+    row.sessions++;
+    row.minutes += sessionMinutes(session);
+    rows.set(label, row);
+  }
+  return [...rows.values()].sort((a, b) => b.sessions - a.sessions || a.label.localeCompare(b.label));
+}
+
+export function sessionMinutes(session: SessionRecord): number {
+  return Math.max(1, Math.round((new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()) / 60_000));
+}
+
+function scoresOf(review: SessionReview): Record<MetricKey, number> {
+  return { fluency: review.fluency.score, accuracy: review.accuracy.score, vocabularyUsage: review.vocabularyUsage.score };
+}
+
+function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (start.getDay() + 6) % 7); // getDay() is 0 on Sunday
+  return start;
+}
+
+function isoDate(date: Date): string {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.toISOString().split('T')[0];
+}
@@ -0,0 +1,131 @@
+// Scripted tutor turns, in the same wire format the real models return.
+// Turn 0 answers the opening prompt; later turns cycle through the rest.
+
+export interface TutorScript {
+  /** Picked when the system instruction contains this text (case-insensitive). */
+  match: string;
+  turns: object[];
+}
+
+const pronunciation = (score: number, feedback: string, tip: string) => ({ score, feedback, tip });
+
+export const FREE_TALK_SCRIPT: TutorScript = {
+  match: '',
+  turns: [
+    {
+      response: "Bonjour ! Je suis ton tuteur de français. Comment tu t'appelles, et qu'est-ce que tu aimes faire le week-end ?",
+      vocabulary: [
+        { word: "s'appeler", translation: 'to be called', example: "Je m'appelle Léa.", lemma: "s'appeler", partOfSpeech: 'verb', cefrLevel: 'A1' },
+        { word: 'le week-end', translation: 'the weekend', example: 'Le week-end, je fais du vélo.', lemma: 'week-end', partOfSpeech: 'noun', gender: 'masculine', cefrLevel: 'A1' },
+      ],
+    },
+    {
+      response: "Enchanté ! C'est génial. Est-ce que tu préfères rester à la maison ou sortir avec des amis ?",
+      vocabulary: [
+        { word: 'enchanté', translation: 'pleased to meet you', example: 'Enchanté, je suis Marc.', lemma: 'enchanté', partOfSpeech: 'interjection', cefrLevel: 'A1' },
+        { word: 'sortir', translation: 'to go out', example: 'Nous sortons ce soir.', lemma: 'sortir', partOfSpeech: 'verb', cefrLevel: 'A1' },
+      ],
+      pronunciationFeedback: pronunciation(4, 'Très clair ! Your vowels were accurate.', "Soften the final consonants: 'week-end' ends almost silently."),
+    },
+    {
+      response: "Ah, je vois ! Attention : on dit « je vais » et pas « je allé ». Qu'est-ce que tu as fait hier ?",
+      vocabulary: [
+        { word: 'hier', translation: 'yesterday', example: 'Hier, il a plu.', lemma: 'hier', partOfSpeech: 'adverb', cefrLevel: 'A1' },
+      ],
+      pronunciationFeedback: pronunciation(3, 'Good rhythm, but some verb endings were unclear.', "Practise the nasal 'an' in 'maintenant'."),
+      corrections: [
+        { original: 'je allé', corrected: 'je vais', category: 'verb-conjugation', explanation: "'Aller' is irregular: 'je vais' in the present, 'je suis allé' in the passé composé." },
+      ],
+      microLessonSuggestion: {
+        topic: 'Present Tense (Le Présent)',
+        reason: "You've mixed up present-tense forms of 'aller' a few times. A quick drill could help!",
+      },
+    },
+    {
+      response: "Très bien ! Tu fais des progrès. Parle-moi de ta ville préférée.",
+      vocabulary: [
+        { word: 'la ville', translation: 'the city', example: 'Paris est une belle ville.', lemma: 'ville', partOfSpeech: 'noun', gender: 'feminine', cefrLevel: 'A1' },
+        { word: 'préféré', translation: 'favourite', example: "C'est mon film préféré.", lemma: 'préféré', partOfSpeech: 'adjective', cefrLevel: 'A2' },
+      ],
+      pronunciationFeedback: pronunciation(5, 'Excellent ! Natural intonation.', 'Keep linking words together, like « très‿intéressant ».'),
+    },
+  ],
+};
+
+export const SCENARIO_SCRIPTS: TutorScript[] = [
+  {
+    match: 'waiter',
+    turns: [
+      {
+        response: 'Bonjour monsieur-dame ! Bienvenue au café. Qu\'est-ce que je vous sers ?',
+        vocabulary: [{ word: 'servir', translation: 'to serve', example: 'Je vous sers un café ?', lemma: 'servir', partOfSpeech: 'verb', cefrLevel: 'A2' }],
+      },
+      {
+        response: 'Très bien, un café et un croissant. Ce sera tout ?',
+        vocabulary: [{ word: 'un croissant', translation: 'a croissant', example: 'Je voudrais un croissant, s\'il vous plaît.', lemma: 'croissant', partOfSpeech: 'noun', gender: 'masculine', cefrLevel: 'A1' }],
+        pronunciationFeedback: pronunciation(4, 'Polite and clear!', "Round your lips more for the 'u' in 'tu'."),
+      },
+      {
+        response: 'Voilà l\'addition : cinq euros cinquante. Merci et bonne journée !',
+        vocabulary: [{ word: "l'addition", translation: 'the bill', example: "L'addition, s'il vous plaît.", lemma: 'addition', partOfSpeech: 'noun', gender: 'feminine', cefrLevel: 'A1' }],
+        pronunciationFeedback: pronunciation(5, 'Parfait !', 'Keep it up.'),
+      },
+    ],
+  },
+  {
+    match: 'lost tourist',
+    turns: [
+      {
+        response: 'Bonjour ! Vous avez l\'air perdu. Où voulez-vous aller ?',
+        vocabulary: [{ word: 'perdu', translation: 'lost', example: 'Je suis perdu.', lemma: 'perdu', partOfSpeech: 'adjective', cefrLevel: 'A1' }],
+      },
+      {
+        response: 'La tour Eiffel ? Allez tout droit, puis tournez à gauche au feu.',
+        vocabulary: [
+          { word: 'tout droit', translation: 'straight ahead', example: 'Continuez tout droit.', lemma: 'tout droit', partOfSpeech: 'expression', cefrLevel: 'A1' },
+          { word: 'à gauche', translation: 'to the left', example: 'Tournez à gauche.', lemma: 'à gauche', partOfSpeech: 'expression', cefrLevel: 'A1' },
+        ],
+        pronunciationFeedback: pronunciation(3, 'Understandable, but the R sounds were hard.', "Practise the French 'r' from the back of the throat."),
+      },
+    ],
+  },
+  {
+    match: 'hiring manager',
+    turns: [
+      {
+        response: 'Bonjour, je suis Madame Dubois, responsable du recrutement. Parlez-moi de vous.',
+        vocabulary: [{ word: 'le recrutement', translation: 'recruitment', example: 'Elle travaille dans le recrutement.', lemma: 'recrutement', partOfSpeech: 'noun', gender: 'masculine', cefrLevel: 'B1' }],
+      },
+      {
+        response: 'Merci. Quelles sont vos plus grandes qualités ?',
+        vocabulary: [{ word: 'une qualité', translation: 'a strength', example: 'La patience est une qualité.', lemma: 'qualité', partOfSpeech: 'noun', gender: 'feminine', cefrLevel: 'A2' }],
+        pronunciationFeedback: pronunciation(4, 'Confident delivery.', 'Slow down slightly on longer sentences.'),
+      },
+    ],
+  },
+];
+
+export const GRAMMAR_SCRIPT: TutorScript = {
+  match: 'grammar coach',
+  turns: [
+    {
+      response: "Commençons ! Conjugue le verbe « parler » avec « je ».",
+      vocabulary: [{ word: 'parler', translation: 'to speak', example: 'Je parle français.', lemma: 'parler', partOfSpeech: 'verb', cefrLevel: 'A1' }],
+    },
+    {
+      response: 'Bravo, « je parle » est correct ! Maintenant, avec « nous » ?',
+      vocabulary: [],
+      pronunciationFeedback: pronunciation(4, 'Good!', "Don't pronounce the final 'e' in 'parle'."),
+    },
+    {
+      response: 'Presque ! On dit « nous parlons ». Essayons « finir » avec « tu ».',
+      vocabulary: [{ word: 'finir', translation: 'to finish', example: 'Tu finis ton travail.', lemma: 'finir', partOfSpeech: 'verb', cefrLevel: 'A1' }],
+      pronunciationFeedback: pronunciation(3, 'The ending was unclear.', "The '-ons' ending is nasal: close to 'on'."),
+    },
+  ],
+};
+
+export const CONVERSATION_SUMMARY_FIXTURE = {
+  summary: 'The learner introduced themselves and talked about their weekend plans. The tutor corrected the use of « aller » in the present tense.',
+  learnerFacts: ['Enjoys cycling at the weekend'],
+};
@@ -0,0 +1,41 @@
+import { TutorScript } from './conversation.fixtures';
+
+// Listening exercises return their content as a stringified JSON object inside "response".
+const exercise = (monologue: string, questions: object[]) => ({
+  response: JSON.stringify({ monologue, questions }),
+  vocabulary: [],
+});
+
+const followUp = {
+  response: "Bien joué ! Tu veux essayer un autre exercice d'écoute ?",
+  vocabulary: [{ word: "l'écoute", translation: 'listening', example: "L'écoute demande de la concentration.", lemma: 'écoute', partOfSpeech: 'noun', gender: 'feminine', cefrLevel: 'B1' }],
+};
+
+export const LISTENING_SCRIPTS: TutorScript[] = [
+  {
+    match: 'market',
+    turns: [
+      exercise(
+        "Ce matin, je suis allée au marché. J'ai acheté des tomates, du fromage et deux baguettes. Le marchand était très sympathique et m'a donné une pomme gratuite.",
+        [
+          { questionText: "Qu'est-ce qu'elle a acheté ?", options: ['Du poisson', 'Des tomates et du fromage', 'Des fleurs'], correctOptionIndex: 1 },
+          { questionText: 'Qu\'est-ce que le marchand lui a donné ?', options: ['Une pomme', 'Une baguette', 'Un café'], correctOptionIndex: 0 },
+        ],
+      ),
+      followUp,
+    ],
+  },
+  {
+    match: 'weather',
+    turns: [
+      exercise(
+        "Voici la météo pour demain. Il fera beau dans le sud avec vingt-cinq degrés. Dans le nord, il y aura de la pluie l'après-midi.",
+        [
+          { questionText: 'Quel temps fera-t-il dans le sud ?', options: ['Il pleuvra', 'Il fera beau', 'Il neigera'], correctOptionIndex: 1 },
+          { questionText: 'Quand pleuvra-t-il dans le nord ?', options: ["L'après-midi", 'Le matin', 'La nuit'], correctOptionIndex: 0 },
+        ],
+      ),
+      followUp,
+    ],
+  },
+];
@@ -0,0 +1,25 @@
+// Offline dictionary for tap-to-lookup and text extraction. Words not listed get a clearly labelled placeholder.
+
+const ENTRIES: Record<string, object> = {
+  'bonjour': { word: 'bonjour', translation: 'hello, good morning', example: 'Bonjour, comment allez-vous ?', lemma: 'bonjour', partOfSpeech: 'interjection', cefrLevel: 'A1' },
+  'aimes': { word: 'aimes', translation: '(you) like, love', example: "Tu aimes le chocolat ?", lemma: 'aimer', partOfSpeech: 'verb', cefrLevel: 'A1' },
+  'maison': { word: 'maison', translation: 'house, home', example: 'Je rentre à la maison.', lemma: 'maison', partOfSpeech: 'noun', gender: 'feminine', cefrLevel: 'A1' },
+  'belle': { word: 'belle', translation: 'beautiful', example: 'Quelle belle journée !', lemma: 'beau', partOfSpeech: 'adjective', cefrLevel: 'A1' },
+  'amis': { word: 'amis', translation: 'friends', example: 'Je sors avec des amis.', lemma: 'ami', partOfSpeech: 'noun', gender: 'masculine', cefrLevel: 'A1' },
+};
+
+export function wordLookupFixture(word: string): object {
+  return ENTRIES[word.toLowerCase()] ?? {
+    word,
+    translation: `(offline demo) "${word}"`,
+    example: `Voici le mot « ${word} ».`,
+    lemma: word,
+  };
+}
+
+/** The dictionary words found in a pasted text, or the whole dictionary if none are. */
+export function textExtractionFixture(text: string): object {
+  const lower = text.toLowerCase();
+  const found = Object.keys(ENTRIES).filter(word => lower.includes(word));
+  return { vocabulary: (found.length ? found : Object.keys(ENTRIES)).map(word => ENTRIES[word]) };
+}
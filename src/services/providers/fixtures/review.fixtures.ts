@@ -0,0 +1,10 @@
+export const SESSION_REVIEW_FIXTURE = {
+  fluency: { score: 72, feedback: 'You kept the conversation going with only short pauses.' },
+  accuracy: { score: 64, feedback: "Watch your verb conjugations, especially with 'aller'." },
+  vocabularyUsage: { score: 70, feedback: 'Good everyday vocabulary; try adding more connectors like « ensuite ».' },
+  recurringMistakes: [
+    { user_text: 'Je allé au parc.', correction: 'Je suis allé au parc.', explanation: "'Aller' takes 'être' in the passé composé.", category: 'tense' },
+    { user_text: 'Le maison est grande.', correction: 'La maison est grande.', explanation: "'Maison' is feminine, so it takes 'la'.", category: 'gender-agreement' },
+  ],
+  overallSummary: 'Une belle session ! You communicated clearly. Focus on auxiliary verbs and noun genders next time.',
+};
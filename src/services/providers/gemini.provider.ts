@@ -0,0 +1,52 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { LlmProvider, LlmRequest, LlmResult, LlmStreamChunk, LlmUsage } from '../llm-provider';
+
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini' as const;
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const response: GenerateContentResponse = await this.ai.models.generateContent(this.toParams(request));
+    return { text: response.text ?? '', usage: toUsage(response) };
+  }
+
+  async *generateStream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const stream = await this.ai.models.generateContentStream(this.toParams(request));
+    let usage: LlmUsage | undefined;
+    for await (const chunk of stream) {
+      // Every chunk repeats the running totals; only the last one is complete
+      usage = toUsage(chunk) ?? usage;
+      if (chunk.text) {
+        yield { text: chunk.text };
+      }
+    }
+    if (usage) {
+      yield { text: '', usage };
+    }
+  }
+
+  private toParams(request: LlmRequest): GenerateContentParameters {
+    return {
+      model: request.model,
+      contents: request.contents.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      config: {
+        systemInstruction: request.systemInstruction || undefined,
+        responseMimeType: "application/json",
+        responseSchema: request.responseSchema,
+        abortSignal: request.signal,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+      },
+    };
+  }
+}
+
+function toUsage(response: GenerateContentResponse): LlmUsage | undefined {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return { promptTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 };
+}
@@ -0,0 +1,93 @@
+import { LlmProvider, LlmRequest, LlmResult, LlmStreamChunk, LlmUsage } from '../llm-provider';
+import { CONVERSATION_SUMMARY_FIXTURE, FREE_TALK_SCRIPT, GRAMMAR_SCRIPT, SCENARIO_SCRIPTS, TutorScript } from './fixtures/conversation.fixtures';
+import { LISTENING_SCRIPTS } from './fixtures/listening.fixtures';
+import { SESSION_REVIEW_FIXTURE } from './fixtures/review.fixtures';
+import { textExtractionFixture, wordLookupFixture } from './fixtures/lookup.fixtures';
+
+/**
+ * Deterministic, offline provider that replays fixture payloads.
+ * Used for demos and automated tests; it never touches the network.
+ */
+export class MockProvider implements LlmProvider {
+  readonly id = 'mock' as const;
+
+  constructor(private latencyMs = 400) {}
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    await delay(this.latencyMs, request.signal);
+
+    const text = JSON.stringify(this.pickPayload(request));
+    return { text, usage: this.estimateUsage(request, text) };
+  }
+
+  async *generateStream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const { text, usage } = await this.generate(request);
+    // Emit small slices so the UI's incremental rendering and speech queue get exercised.
+    for (let i = 0; i < text.length; i += 16) {
+      await delay(30, request.signal);
+      yield { text: text.slice(i, i + 16) };
+    }
+    yield { text: '', usage };
+  }
+
+  private pickPayload(request: LlmRequest): object {
+    if (request.task === 'review') {
+      return SESSION_REVIEW_FIXTURE;
+    }
+    if (request.task === 'summary') {
+      return CONVERSATION_SUMMARY_FIXTURE;
+    }
+    if (request.task === 'lookup') {
+      // The lookup prompt quotes the word first: Word: "..."
+      const word = /Word: "([^"]*)"/.exec(request.contents[0]?.text ?? '')?.[1] ?? '';
+      return wordLookupFixture(word);
+    }
+    if (request.task === 'extraction') {
+      return textExtractionFixture(request.contents[0]?.text ?? '');
+    }
+
+    const script = this.pickScript(request.systemInstruction ?? '');
+    const turnIndex = request.contents.filter(turn => turn.role === 'user').length - 1;
+    return this.pickTurn(script, turnIndex);
+  }
+
+  // Roughly what a real backend would report (~4 characters per token), so usage caps can be tried offline.
+  private estimateUsage(request: LlmRequest, text: string): LlmUsage {
+    const promptChars = (request.systemInstruction ?? '').length + request.contents.reduce((sum, turn) => sum + turn.text.length, 0);
+    return { promptTokens: Math.ceil(promptChars / 4), outputTokens: Math.ceil(text.length / 4) };
+  }
+
+  private pickScript(systemInstruction: string): TutorScript {
+    const instruction = systemInstruction.toLowerCase();
+    const matches = (script: TutorScript) => instruction.includes(script.match);
+
+    if (instruction.includes('listening exercise')) {
+      return LISTENING_SCRIPTS.find(matches) ?? LISTENING_SCRIPTS[0];
+    }
+    if (matches(GRAMMAR_SCRIPT)) {
+      return GRAMMAR_SCRIPT;
+    }
+    return SCENARIO_SCRIPTS.find(matches) ?? FREE_TALK_SCRIPT;
+  }
+
+  // The opening turn is only played once; later turns cycle through the rest of the script.
+  private pickTurn(script: TutorScript, turnIndex: number): object {
+    const { turns } = script;
+    if (turnIndex <= 0 || turns.length === 1) {
+      return turns[0];
+    }
+    return turns[1 + (turnIndex - 1) % (turns.length - 1)];
+  }
+}
+
+/** Like a real network call, rejects as soon as `signal` fires. */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
@@ -0,0 +1,116 @@
+import { LlmProvider, LlmRequest, LlmResult, LlmStreamChunk, LlmUsage } from '../llm-provider';
+
+/** The parts of a `/chat/completions` response (or streamed chunk) this provider reads. */
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null }; delta?: { content?: string | null } }[];
+  usage?: unknown;
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API
+ * (Ollama, llama.cpp, vLLM, LM Studio, ...).
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai-compatible' as const;
+
+  constructor(private baseUrl: string, private apiKey?: string) {}
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const response = await this.post(request, false);
+    const data: ChatCompletion = await response.json();
+    return { text: data?.choices?.[0]?.message?.content ?? '', usage: toUsage(data?.usage) };
+  }
+
+  async *generateStream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error('OpenAI-compatible server returned an empty stream.');
+    }
+
+    // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let pending = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      // A last line without a trailing newline is still an event
+      const lines = done ? [pending] : (pending + value).split('\n');
+      pending = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        yield* parseEvent(line);
+      }
+      if (done) break;
+    }
+  }
+
+  private async post(request: LlmRequest, stream: boolean): Promise<Response> {
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      ...request.contents.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+    ];
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model: request.model,
+        messages,
+        stream,
+        // Ask for a final usage chunk; servers that don't support it just ignore the option
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`OpenAI-compatible request failed (${response.status}): ${body}`);
+    }
+    return response;
+  }
+}
+
+function* parseEvent(line: string): Iterable<LlmStreamChunk> {
+  const payload = line.trim().replace(/^data:\s*/, '');
+  if (!line.trim().startsWith('data:') || payload === '[DONE]') return;
+  const data: ChatCompletion = JSON.parse(payload);
+  const delta = data?.choices?.[0]?.delta?.content;
+  if (delta) {
+    yield { text: delta };
+  }
+  if (data?.usage) {
+    yield { text: '', usage: toUsage(data.usage) };
+  }
+}
+
+function toUsage(usage: unknown): LlmUsage | undefined {
+  if (!usage || typeof usage !== 'object') return undefined;
+  const { prompt_tokens, completion_tokens } = usage as Record<string, unknown>;
+  return {
+    promptTokens: typeof prompt_tokens === 'number' ? prompt_tokens : 0,
+    outputTokens: typeof completion_tokens === 'number' ? completion_tokens : 0,
+  };
+}
+
+// Gemini schemas use upper-case type names ('OBJECT', 'STRING', ...); JSON Schema wants lower-case.
+function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toJsonSchema);
+  }
+  if (schema && typeof schema === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema)) {
+      result[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+    }
+    return result;
+  }
+  return schema;
+}
@@ -0,0 +1,324 @@
+import { CEFR_LEVELS, Correction, ListeningContent, MISTAKE_CATEGORIES, MicroLessonSuggestion, Mistake, MistakeCategory, Metric, PARTS_OF_SPEECH, PronunciationFeedback, Question, SessionReview, VocabularyItem } from './gemini.service';
+
+/**
+ * Outcome of checking a model payload against its TypeScript interface.
+ * `repairs` lists problems that were fixed in place; `errors` lists problems that
+ * could not be fixed, in which case `value` is null.
+ */
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+  repairs: string[];
+}
+
+/** The JSON object a tutor turn is expected to contain (see `GeminiService.responseSchema`). */
+export interface TutorPayload {
+  response: string;
+  vocabulary: VocabularyItem[];
+  pronunciationFeedback?: PronunciationFeedback;
+  corrections?: Correction[];
+  microLessonSuggestion?: MicroLessonSuggestion;
+}
+
+export type Validator<T> = (data: unknown, errors: string[], repairs: string[]) => T | null;
+
+/** Parses `text` as JSON and runs `validator` over it. */
+export function validateJson<T>(text: string, validator: Validator<T>): ValidationResult<T> {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { value: null, errors: [`Response is not valid JSON: ${(e as Error).message}`], repairs };
+  }
+  const value = validator(data, errors, repairs);
+  return { value: errors.length ? null : value, errors, repairs };
+}
+
+export const validateTutorPayload: Validator<TutorPayload> = (data, errors, repairs) => {
+  if (!isObject(data)) {
+    errors.push('Expected a JSON object.');
+    return null;
+  }
+  if (typeof data['response'] !== 'string') {
+    errors.push('"response" must be a string.');
+    return null;
+  }
+
+  const payload: TutorPayload = {
+    response: data['response'],
+    vocabulary: validateVocabulary(data['vocabulary'], repairs),
+  };
+
+  if (data['pronunciationFeedback'] != null) {
+    const feedback = validatePronunciationFeedback(data['pronunciationFeedback'], repairs);
+    if (feedback) payload.pronunciationFeedback = feedback;
+  }
+  if (data['corrections'] != null) {
+    payload.corrections = validateCorrections(data['corrections'], repairs);
+  }
+  if (data['microLessonSuggestion'] != null) {
+    const suggestion = data['microLessonSuggestion'];
+    if (isObject(suggestion) && isNonEmptyString(suggestion['topic']) && isNonEmptyString(suggestion['reason'])) {
+      payload.microLessonSuggestion = { topic: suggestion['topic'], reason: suggestion['reason'] };
+    } else {
+      repairs.push('Dropped malformed "microLessonSuggestion".');
+    }
+  }
+  return payload;
+};
+
+export const validateListeningContent: Validator<ListeningContent> = (data, errors, repairs) => {
+  if (!isObject(data)) {
+    errors.push('Listening content must be a JSON object.');
+    return null;
+  }
+  if (!isNonEmptyString(data['monologue'])) {
+    errors.push('"monologue" must be a non-empty string.');
+    return null;
+  }
+  if (!Array.isArray(data['questions'])) {
+    errors.push('"questions" must be an array.');
+    return null;
+  }
+
+  const questions: Question[] = [];
+  data['questions'].forEach((raw, i) => {
+    const question = validateQuestion(raw, i, repairs);
+    if (question) questions.push(question);
+  });
+  if (!questions.length) {
+    errors.push('"questions" must contain at least one valid question with 2+ options and an in-range "correctOptionIndex".');
+    return null;
+  }
+  return { monologue: data['monologue'], questions };
+};
+
+/** A listening-exercise turn: a tutor payload whose "response" holds the exercise as a JSON string. */
+export const validateListeningPayload: Validator<TutorPayload & { listeningContent: ListeningContent }> = (data, errors, repairs) => {
+  if (isObject(data) && isObject(data['response'])) {
+    repairs.push('"response" was an object instead of a JSON string; re-encoded it.');
+    data = { ...data, response: JSON.stringify(data['response']) };
+  }
+  const payload = validateTutorPayload(data, errors, repairs);
+  if (!payload) return null;
+
+  let inner: unknown;
+  try {
+    inner = JSON.parse(payload.response);
+  } catch {
+    errors.push('"response" must be a stringified JSON object with "monologue" and "questions".');
+    return null;
+  }
+  const listeningContent = validateListeningContent(inner, errors, repairs);
+  return listeningContent ? { ...payload, listeningContent } : null;
+};
+
+export const validateSessionReview: Validator<SessionReview> = (data, errors, repairs) => {
+  if (!isObject(data)) {
+    errors.push('Expected a JSON object.');
+    return null;
+  }
+
+  const fluency = validateMetric(data['fluency'], 'fluency', errors, repairs);
+  const accuracy = validateMetric(data['accuracy'], 'accuracy', errors, repairs);
+  const vocabularyUsage = validateMetric(data['vocabularyUsage'], 'vocabularyUsage', errors, repairs);
+
+  let overallSummary = data['overallSummary'];
+  if (typeof overallSummary !== 'string') {
+    errors.push('"overallSummary" must be a string.');
+    overallSummary = '';
+  }
+
+  let recurringMistakes: Mistake[] = [];
+  if (Array.isArray(data['recurringMistakes'])) {
+    recurringMistakes = data['recurringMistakes'].filter((m): m is Mistake =>
+      isObject(m) && isNonEmptyString(m['user_text']) && isNonEmptyString(m['correction']) && typeof m['explanation'] === 'string');
+    if (recurringMistakes.length !== data['recurringMistakes'].length) {
+      repairs.push('Dropped malformed entries from "recurringMistakes".');
+    }
+    recurringMistakes = recurringMistakes.map(mistake => ({ ...mistake, category: validateMistakeCategory(mistake.category, repairs) }));
+  } else {
+    repairs.push('"recurringMistakes" was missing; defaulted to an empty list.');
+  }
+
+  if (!fluency || !accuracy || !vocabularyUsage) {
+    return null;
+  }
+  return { fluency, accuracy, vocabularyUsage, recurringMistakes, overallSummary: overallSummary as string };
+};
+
+export const validateWordLookup: Validator<VocabularyItem> = (data, errors, repairs) => {
+  if (!isObject(data) || !isNonEmptyString(data['word']) || !isNonEmptyString(data['translation'])) {
+    errors.push('"word" and "translation" must be non-empty strings.');
+    return null;
+  }
+  if (typeof data['example'] !== 'string') {
+    repairs.push('"example" was missing; defaulted to an empty string.');
+  }
+  return {
+    word: data['word'].trim(),
+    translation: data['translation'],
+    example: typeof data['example'] === 'string' ? data['example'] : '',
+    ...validateWordDetails(data, repairs),
+  };
+};
+
+export const validateExtractedVocabulary: Validator<VocabularyItem[]> = (data, errors, repairs) => {
+  if (!isObject(data) || !Array.isArray(data['vocabulary'])) {
+    errors.push('"vocabulary" must be an array.');
+    return null;
+  }
+  return validateVocabulary(data['vocabulary'], repairs);
+};
+
+export const validateConversationSummary: Validator<{ summary: string; learnerFacts: string[] }> = (data, errors, repairs) => {
+  if (!isObject(data) || !isNonEmptyString(data['summary'])) {
+    errors.push('"summary" must be a non-empty string.');
+    return null;
+  }
+  if (!Array.isArray(data['learnerFacts'])) {
+    repairs.push('"learnerFacts" was missing; defaulted to an empty list.');
+  }
+  const learnerFacts = Array.isArray(data['learnerFacts']) ? data['learnerFacts'].filter(isNonEmptyString) : [];
+  return { summary: data['summary'], learnerFacts };
+};
+
+// --- Field helpers ---
+
+function validateVocabulary(raw: unknown, repairs: string[]): VocabularyItem[] {
+  if (!Array.isArray(raw)) {
+    repairs.push('"vocabulary" was missing; defaulted to an empty list.');
+    return [];
+  }
+  const items: VocabularyItem[] = [];
+  for (const entry of raw) {
+    if (!isObject(entry) || !isNonEmptyString(entry['word'])) {
+      repairs.push('Dropped a vocabulary entry without a "word".');
+      continue;
+    }
+    if (typeof entry['translation'] !== 'string' || typeof entry['example'] !== 'string') {
+      repairs.push(`Filled in missing fields for vocabulary word "${entry['word']}".`);
+    }
+    items.push({
+      word: entry['word'].trim(),
+      translation: typeof entry['translation'] === 'string' ? entry['translation'] : '',
+      example: typeof entry['example'] === 'string' ? entry['example'] : '',
+      ...validateWordDetails(entry, repairs),
+    });
+  }
+  return items;
+}
+
+/** The optional lemma/grammar fields of a vocabulary entry; unknown values are dropped rather than guessed. */
+function validateWordDetails(entry: Record<string, unknown>, repairs: string[]): Partial<VocabularyItem> {
+  const details: Partial<VocabularyItem> = {};
+  if (isNonEmptyString(entry['lemma'])) {
+    details.lemma = entry['lemma'].trim();
+  }
+  const partOfSpeech = typeof entry['partOfSpeech'] === 'string' ? entry['partOfSpeech'].toLowerCase() : undefined;
+  if (partOfSpeech !== undefined && (PARTS_OF_SPEECH as readonly string[]).includes(partOfSpeech)) {
+    details.partOfSpeech = partOfSpeech as VocabularyItem['partOfSpeech'];
+  } else if (partOfSpeech !== undefined) {
+    repairs.push(`Dropped unknown part of speech "${entry['partOfSpeech']}" for "${entry['word']}".`);
+  }
+  if (entry['gender'] === 'masculine' || entry['gender'] === 'feminine') {
+    // Only nouns carry a gender worth drilling; adjectives agree with theirs
+    if (details.partOfSpeech === undefined || details.partOfSpeech === 'noun') {
+      details.gender = entry['gender'];
+    }
+  } else if (entry['gender'] !== undefined && entry['gender'] !== null) {
+    repairs.push(`Dropped unknown gender "${entry['gender']}" for "${entry['word']}".`);
+  }
+  const cefrLevel = typeof entry['cefrLevel'] === 'string' ? entry['cefrLevel'].toUpperCase() : undefined;
+  if (cefrLevel !== undefined && (CEFR_LEVELS as readonly string[]).includes(cefrLevel)) {
+    details.cefrLevel = cefrLevel as VocabularyItem['cefrLevel'];
+  } else if (cefrLevel !== undefined) {
+    repairs.push(`Dropped unknown CEFR level "${entry['cefrLevel']}" for "${entry['word']}".`);
+  }
+  return details;
+}
+
+/** A known category, lower-cased; anything else becomes 'other'. */
+function validateMistakeCategory(value: unknown, repairs: string[]): MistakeCategory {
+  const category = typeof value === 'string' ? value.toLowerCase() : value;
+  if (MISTAKE_CATEGORIES.includes(category as MistakeCategory)) {
+    return category as MistakeCategory;
+  }
+  repairs.push(`Unknown mistake category "${value}"; filed under "other".`);
+  return 'other';
+}
+
+function validateCorrections(raw: unknown, repairs: string[]): Correction[] {
+  if (!Array.isArray(raw)) {
+    repairs.push('"corrections" was not an array; dropped it.');
+    return [];
+  }
+  const corrections = raw.filter(entry =>
+    isObject(entry) && isNonEmptyString(entry['original']) && isNonEmptyString(entry['corrected']) && entry['original'].trim() !== entry['corrected'].trim());
+  if (corrections.length !== raw.length) {
+    repairs.push('Dropped malformed or unchanged entries from "corrections".');
+  }
+  return corrections.map(entry => ({
+    original: entry['original'].trim(),
+    corrected: entry['corrected'].trim(),
+    category: validateMistakeCategory(entry['category'], repairs),
+    explanation: typeof entry['explanation'] === 'string' ? entry['explanation'] : '',
+  }));
+}
+
+function validatePronunciationFeedback(raw: unknown, repairs: string[]): PronunciationFeedback | null {
+  if (!isObject(raw) || typeof raw['feedback'] !== 'string' || !Number.isFinite(Number(raw['score']))) {
+    repairs.push('Dropped malformed "pronunciationFeedback".');
+    return null;
+  }
+  const score = clamp(Math.round(Number(raw['score'])), 1, 5);
+  if (score !== raw['score']) {
+    repairs.push(`Clamped pronunciation score ${raw['score']} to ${score}.`);
+  }
+  return { score, feedback: raw['feedback'], tip: typeof raw['tip'] === 'string' ? raw['tip'] : '' };
+}
+
+function validateQuestion(raw: unknown, index: number, repairs: string[]): Question | null {
+  const label = `question ${index + 1}`;
+  if (!isObject(raw) || !isNonEmptyString(raw['questionText']) || !Array.isArray(raw['options'])) {
+    repairs.push(`Dropped malformed ${label}.`);
+    return null;
+  }
+  const options = raw['options'].filter(isNonEmptyString);
+  const correctOptionIndex = Number(raw['correctOptionIndex']);
+  if (options.length < 2 || options.length !== raw['options'].length) {
+    repairs.push(`Dropped ${label}: it needs at least two text options.`);
+    return null;
+  }
+  if (!Number.isInteger(correctOptionIndex) || correctOptionIndex < 0 || correctOptionIndex >= options.length) {
+    repairs.push(`Dropped ${label}: "correctOptionIndex" ${raw['correctOptionIndex']} is out of range.`);
+    return null;
+  }
+  return { questionText: raw['questionText'], options, correctOptionIndex };
+}
+
+function validateMetric(raw: unknown, name: string, errors: string[], repairs: string[]): Metric | null {
+  if (!isObject(raw) || !Number.isFinite(Number(raw['score']))) {
+    errors.push(`"${name}" must be an object with a numeric "score".`);
+    return null;
+  }
+  const score = clamp(Math.round(Number(raw['score'])), 0, 100);
+  if (score !== raw['score']) {
+    repairs.push(`Clamped ${name} score ${raw['score']} to ${score}.`);
+  }
+  return { score, feedback: typeof raw['feedback'] === 'string' ? raw['feedback'] : '' };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,62 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { ChatInitialState, SessionStats } from '../components/chat/chat.component';
+import { ConversationSnapshot } from './conversation-context';
+import { ListeningContent, Message, VocabularyBankItem } from './gemini.service';
+import { StorageService } from './storage.service';
+
+/** The conversation a micro-lesson interrupted, to go back to when the lesson ends. */
+export interface SavedConversationState {
+  messages: Message[];
+  conversation: ConversationSnapshot;
+}
+
+/** Everything needed to put an unfinished session back exactly as it was left. */
+export interface SessionCheckpoint {
+  state: ChatInitialState;
+  startedAt: string; // ISO timestamp
+  savedAt: string; // ISO timestamp
+  messages: Message[];
+  conversation: ConversationSnapshot;
+  stats: SessionStats;
+  dueWords: VocabularyBankItem[];
+  listening: {
+    exercise: ListeningContent | null;
+    state: 'listening' | 'revealed' | 'answered' | 'done';
+    selectedAnswers: [number, number][];
+  };
+  microLesson: { topic: string; saved: SavedConversationState | null } | null;
+}
+
+/**
+ * The session in progress, saved after every settled turn so a reload or crash doesn't lose it.
+ * Cleared once the learner ends the session or starts another one.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionCheckpointService {
+  private storage = inject(StorageService);
+
+  private current = signal<SessionCheckpoint | null>(null);
+  readonly checkpoint = this.current.asReadonly();
+
+  constructor() {
+    this.loadFromStorage();
+    this.storage.onProfileSwitch(() => this.loadFromStorage());
+  }
+
+  save(checkpoint: SessionCheckpoint): void {
+    this.current.set(checkpoint);
+    this.storage.set('session-checkpoint', checkpoint);
+  }
+
+  clear(): void {
+    if (this.current() === null) return;
+    this.current.set(null);
+    this.storage.set('session-checkpoint', null);
+  }
+
+  private loadFromStorage(): void {
+    this.current.set(this.storage.get<SessionCheckpoint>('session-checkpoint') ?? null);
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { Message, SessionReview } from './gemini.service';
+import { StorageService } from './storage.service';
+
+export type SessionMode = 'free-talk' | 'scenario' | 'grammar' | 'listening' | 'reading' | 'mistakes';
+
+export const SESSION_MODES: Record<SessionMode, { label: string; icon: string }> = {
+  'free-talk': { label: 'Free Talk', icon: 'fa-comment-dots' },
+  'scenario': { label: 'Scenario', icon: 'fa-masks-theater' },
+  'grammar': { label: 'Grammar', icon: 'fa-book-open' },
+  'listening': { label: 'Listening', icon: 'fa-headphones' },
+  'reading': { label: 'Reading', icon: 'fa-newspaper' },
+  'mistakes': { label: 'Mistakes', icon: 'fa-bullseye' },
+};
+
+/** A finished session, kept so the learner can re-read it later. */
+export interface SessionRecord {
+  id: string;
+  mode: SessionMode;
+  title: string;
+  tutorName: string;
+  startedAt: string; // ISO timestamp
+  endedAt: string; // ISO timestamp
+  messages: Message[];
+  review: SessionReview | null;
+  wordsSaved: number;
+}
+
+/** The learner's finished sessions, newest first. */
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionHistoryService {
+  private storage = inject(StorageService);
+
+  // Oldest sessions are dropped past this, so the archive can't grow without bound
+  private readonly maxSessions = 200;
+
+  private history = signal<SessionRecord[]>([]);
+  readonly sessions = this.history.asReadonly();
+
+  constructor() {
+    this.loadFromStorage();
+    this.storage.onProfileSwitch(() => this.loadFromStorage());
+  }
+
+  record(session: Omit<SessionRecord, 'id'>): SessionRecord {
+    const saved: SessionRecord = { ...session, id: crypto.randomUUID() };
+    this.history.update(current => [saved, ...current].slice(0, this.maxSessions));
+    this.saveToStorage();
+    return saved;
+  }
+
+  delete(id: string): void {
+    this.history.update(current => current.filter(session => session.id !== id));
+    this.saveToStorage();
+  }
+
+  private loadFromStorage(): void {
+    this.history.set(this.storage.get<SessionRecord[]>('session-history') ?? []);
+  }
+
+  private saveToStorage(): void {
+    this.storage.set('session-history', this.history());
+  }
+}
@@ -0,0 +1,123 @@
+import { RecallGrade, VocabularyBankItem, VocabularyItem } from './gemini.service';
+
+// SM-2 style spaced repetition, with Anki's four answer buttons.
+// Dates are ISO date strings (YYYY-MM-DD); intervals are whole days.
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+const HISTORY_LIMIT = 50;
+
+const EASE_CHANGE: Record<RecallGrade, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15,
+};
+
+// Intervals used by the original fixed-table scheduler, indexed by srsLevel
+const LEGACY_INTERVALS_DAYS = [1, 3, 7, 14, 30, 60, 120];
+
+/** The scheduling fields of anything reviewed with spaced repetition. */
+export type ReviewSchedule = Pick<VocabularyBankItem, 'srsLevel' | 'nextReviewDate' | 'ease' | 'stability' | 'lapses' | 'lastReviewDate' | 'reviewHistory'>;
+
+/** A schedule for something not yet reviewed, first due `firstDueInDays` from today. */
+export function newSchedule(today = new Date(), firstDueInDays = 1): ReviewSchedule {
+  return {
+    srsLevel: 0,
+    nextReviewDate: addDays(today, firstDueInDays),
+    ease: DEFAULT_EASE,
+    stability: 0,
+    lapses: 0,
+    lastReviewDate: null,
+    reviewHistory: [],
+  };
+}
+
+/** A freshly saved word, first due tomorrow. */
+export function createBankItem(word: VocabularyItem, today = new Date()): VocabularyBankItem {
+  return {
+    ...word,
+    ...newSchedule(today),
+    tags: [],
+    deck: null,
+  };
+}
+
+/** Days until the next review if the learner answers `grade` now. 0 means "again today". */
+export function nextInterval(item: ReviewSchedule, grade: RecallGrade): number {
+  if (grade === 'again') {
+    return 0;
+  }
+  if (item.srsLevel === 0) {
+    // Learning (or relearning after a lapse): fixed first steps
+    return { hard: 1, good: 1, easy: 4 }[grade];
+  }
+  if (item.srsLevel === 1) {
+    return { hard: 2, good: 3, easy: 6 }[grade];
+  }
+
+  const hard = clampInterval(item.stability * 1.2);
+  // A better answer must never come back sooner than a worse one
+  const good = clampInterval(Math.max(item.stability * item.ease, hard + 1));
+  const easy = clampInterval(Math.max(item.stability * item.ease * 1.3, good + 1));
+  return { hard, good, easy }[grade];
+}
+
+/** Applies a review and returns the updated item. */
+export function scheduleReview<T extends ReviewSchedule>(item: T, grade: RecallGrade, today = new Date()): T {
+  const intervalDays = nextInterval(item, grade);
+  const reviewDate = addDays(today, 0);
+  const wasLearned = item.srsLevel > 0;
+
+  return {
+    ...item,
+    srsLevel: grade === 'again' ? 0 : item.srsLevel + 1,
+    ease: nextEase(item, grade),
+    stability: intervalDays,
+    lapses: grade === 'again' && wasLearned ? item.lapses + 1 : item.lapses,
+    nextReviewDate: addDays(today, intervalDays),
+    lastReviewDate: reviewDate,
+    reviewHistory: [...item.reviewHistory, { date: reviewDate, grade, intervalDays }].slice(-HISTORY_LIMIT),
+  };
+}
+
+/**
+ * Brings a stored item up to the current shape. Items saved by the fixed-table scheduler
+ * keep their due date and get the interval that table would have given them.
+ */
+export function migrateBankItem(stored: Partial<VocabularyBankItem> & VocabularyItem): VocabularyBankItem {
+  const srsLevel = Number.isInteger(stored.srsLevel) && stored.srsLevel! >= 0 ? stored.srsLevel! : 0;
+  const legacyInterval = srsLevel > 0 ? LEGACY_INTERVALS_DAYS[Math.min(srsLevel, LEGACY_INTERVALS_DAYS.length - 1)] : 0;
+  return {
+    ...stored,
+    srsLevel,
+    nextReviewDate: stored.nextReviewDate ?? addDays(new Date(), 0),
+    ease: typeof stored.ease === 'number' ? Math.max(MIN_EASE, stored.ease) : DEFAULT_EASE,
+    stability: typeof stored.stability === 'number' ? stored.stability : legacyInterval,
+    lapses: stored.lapses ?? 0,
+    lastReviewDate: stored.lastReviewDate ?? null,
+    reviewHistory: Array.isArray(stored.reviewHistory) ? stored.reviewHistory : [],
+    tags: Array.isArray(stored.tags) ? stored.tags : [],
+    deck: stored.deck ?? null,
+  };
+}
+
+function nextEase(item: ReviewSchedule, grade: RecallGrade): number {
+  // Ease only moves for words that have been learned, as in SM-2
+  if (item.srsLevel === 0) {
+    return item.ease;
+  }
+  return Math.max(MIN_EASE, item.ease + EASE_CHANGE[grade]);
+}
+
+function clampInterval(days: number): number {
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+}
+
+function addDays(date: Date, days: number): string {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+}
@@ -0,0 +1,102 @@
+import { VocabularyBankItem } from './gemini.service';
+import { SessionRecord } from './session-history.service';
+
+// Ordered upgrades for the data kept by StorageService. Each runs once, in version order, on the
+// records as they were left by the previous one. Migrations never change once released: a new field
+// means a new migration, and defaults are copied here rather than read from the current code.
+
+/** The records the app keeps, one per kind of data. */
+export type StoreKey = 'progress' | 'settings' | 'vocab-bank' | 'vocab-decks' | 'usage' | 'word-lookups' | 'credentials' | 'session-history' | 'session-checkpoint' | 'mistake-log';
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Upgrades `records` in place. `skip` reports data that couldn't be used and was dropped. */
+  migrate(records: Map<StoreKey, unknown>, skip: (key: StoreKey, reason: string) => void): void;
+}
+
+/** Where each record lived before IndexedDB; read once by the first migration, then removed. */
+export const LEGACY_STORAGE_KEYS: Partial<Record<StoreKey, string>> = {
+  'progress': 'french-companion-progress',
+  'settings': 'french-companion-settings',
+  'vocab-bank': 'french-companion-vocab-bank',
+  'vocab-decks': 'french-companion-vocab-decks',
+  'usage': 'french-companion-usage',
+  'word-lookups': 'french-companion-word-lookups',
+  'credentials': 'french-companion-credentials',
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Import the data previously kept in localStorage',
+    migrate: (records, skip) => {
+      for (const [key, legacyKey] of Object.entries(LEGACY_STORAGE_KEYS) as [StoreKey, string][]) {
+        const storedData = localStorage.getItem(legacyKey);
+        if (storedData === null || records.has(key)) continue;
+        try {
+          records.set(key, JSON.parse(storedData));
+        } catch (e) {
+          skip(key, `"${legacyKey}" is not valid JSON`);
+        }
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Fill in progress fields that early versions did not save',
+    migrate: (records, skip) => {
+      const progress = records.get('progress') as Record<string, any> | undefined;
+      if (progress === undefined) return;
+      if (!progress || typeof progress['levelIndex'] !== 'number') {
+        records.delete('progress');
+        skip('progress', 'it has no level');
+        return;
+      }
+      records.set('progress', {
+        levelIndex: 0, xp: 0, lastSessionDate: null, currentStreak: 0, unlockedAchievements: [],
+        ...progress,
+        stats: { sessionsCompleted: 0, wordsSaved: 0, scenariosCompleted: [], grammarCompleted: [], ...progress['stats'] },
+      });
+    },
+  },
+  {
+    version: 3,
+    description: 'Add scheduling, tag and deck fields to vocabulary saved before they existed',
+    migrate: records => {
+      const bank = records.get('vocab-bank');
+      if (!Array.isArray(bank)) return;
+      // Interval of each level of the fixed ladder the scheduler used before ease and stability
+      const legacyIntervals = [1, 3, 7, 14, 30, 60, 120];
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      records.set('vocab-bank', (bank as Partial<VocabularyBankItem>[]).map(stored => {
+        const srsLevel = Number.isInteger(stored.srsLevel) && stored.srsLevel! >= 0 ? stored.srsLevel! : 0;
+        return {
+          ...stored,
+          srsLevel,
+          nextReviewDate: stored.nextReviewDate ?? today.toISOString().split('T')[0],
+          ease: typeof stored.ease === 'number' ? Math.max(1.3, stored.ease) : 2.5,
+          stability: typeof stored.stability === 'number' ? stored.stability : srsLevel > 0 ? legacyIntervals[Math.min(srsLevel, legacyIntervals.length - 1)] : 0,
+          lapses: stored.lapses ?? 0,
+          lastReviewDate: stored.lastReviewDate ?? null,
+          reviewHistory: Array.isArray(stored.reviewHistory) ? stored.reviewHistory : [],
+          tags: Array.isArray(stored.tags) ? stored.tags : [],
+          deck: stored.deck ?? null,
+        };
+      }));
+    },
+  },
+  {
+    version: 4,
+    description: 'Count the words saved in sessions archived before the count was kept',
+    migrate: records => {
+      const history = records.get('session-history');
+      if (Array.isArray(history)) {
+        records.set('session-history', (history as SessionRecord[]).map(session => ({ wordsSaved: 0, ...session })));
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
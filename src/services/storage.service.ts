@@ -0,0 +1,308 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { LATEST_SCHEMA_VERSION, LEGACY_STORAGE_KEYS, MIGRATIONS, StoreKey } from './storage-migrations';
+
+export type StorageIssueKind = 'quota' | 'corrupt' | 'unavailable';
+
+export interface StorageIssue {
+  kind: StorageIssueKind;
+  detail: string;
+}
+
+/** A learner sharing this device. Every record is kept separately for each profile. */
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string; // An emoji from PROFILE_AVATARS
+  createdAt: string; // ISO timestamp
+}
+
+export const PROFILE_AVATARS = ['🦊', '🐻', '🐼', '🐨', '🐸', '🦉', '🐙', '🦁', '🐧', '🐢', '🦄', '🐝'];
+
+/** Learner-facing explanation for each kind of storage problem. */
+export const STORAGE_ISSUE_MESSAGES: Record<StorageIssueKind, string> = {
+  'quota': "Your browser has run out of storage space for this site, so recent progress couldn't be saved. Free up some space, then keep going.",
+  'corrupt': "Some saved data couldn't be read and was skipped. Everything else has been kept.",
+  'unavailable': "This browser isn't letting the app save data (private browsing can do this), so progress from this visit won't be kept.",
+};
+
+/**
+ * All of the learners' saved data, kept in IndexedDB. Records are read into memory once at startup
+ * (see `init`), so services read them synchronously; writes go straight through to the database.
+ * Reads and writes always apply to the active profile. Failed reads and writes are reported
+ * through `issue` rather than thrown.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class StorageService {
+  private readonly DB_NAME = 'french-companion';
+  private readonly DB_VERSION = 1;
+  private readonly RECORDS_STORE = 'records';
+  private readonly META_STORE = 'meta';
+  private readonly SCHEMA_VERSION_KEY = 'schemaVersion';
+  private readonly PROFILES_KEY = 'profiles';
+  private readonly LAST_PROFILE_KEY = 'lastProfileId';
+
+  private db: IDBDatabase | null = null;
+  // Keyed by "<profile id>/<store key>"
+  private records = new Map<string, unknown>();
+  private profileLoaders: (() => void)[] = [];
+
+  private profileList = signal<Profile[]>([]);
+  private activeProfileId = signal<string | null>(null);
+  private issueState = signal<StorageIssue | null>(null);
+
+  readonly profiles = this.profileList.asReadonly();
+  readonly activeProfile = computed(() => this.profileList().find(p => p.id === this.activeProfileId()) ?? null);
+  readonly issue = this.issueState.asReadonly();
+
+  /** Opens the database, runs any pending migrations and loads every record. Never rejects. */
+  async init(): Promise<void> {
+    try {
+      this.db = await this.open();
+    } catch (e) {
+      this.report(e, 'unavailable', 'Failed to open the database:');
+      // Still show the learner what localStorage holds, even though nothing new will be kept
+      const profile = this.addFirstProfile();
+      try {
+        this.migrateProfile(profile.id, 0);
+      } catch (migrationError) {
+        console.error('Failed to read data from local storage:', migrationError);
+      }
+      return;
+    }
+
+    let stored: Awaited<ReturnType<StorageService['readAll']>>;
+    try {
+      stored = await this.readAll();
+    } catch (e) {
+      this.report(e, 'corrupt', 'Failed to read saved data:');
+      // Leave what's there alone rather than overwrite it with a fresh start
+      this.db = null;
+      this.addFirstProfile();
+      return;
+    }
+
+    this.records = stored.records;
+    this.profileList.set(stored.profiles ?? []);
+    let changed = false;
+    if (!this.profileList().length) {
+      // Data saved before profiles existed becomes the first profile's
+      const profile = this.addFirstProfile();
+      for (const [key, value] of [...this.records]) {
+        if (!key.includes('/')) {
+          this.records.delete(key);
+          this.records.set(this.recordKey(key as StoreKey, profile.id), value);
+        }
+      }
+      changed = true;
+    }
+    this.activeProfileId.set(this.profileList().some(p => p.id === stored.lastProfileId) ? stored.lastProfileId : this.profileList()[0].id);
+
+    try {
+      if (stored.version < LATEST_SCHEMA_VERSION) {
+        this.profileList().forEach(profile => this.migrateProfile(profile.id, stored.version));
+        changed = true;
+      }
+      if (changed) {
+        await this.writeAll();
+      }
+      if (stored.version === 0) {
+        Object.values(LEGACY_STORAGE_KEYS).forEach(key => localStorage.removeItem(key!));
+      }
+    } catch (e) {
+      this.report(e, 'corrupt', 'Failed to upgrade saved data:');
+    }
+  }
+
+  get<T>(key: StoreKey): T | undefined {
+    return this.records.get(this.recordKey(key)) as T | undefined;
+  }
+
+  set(key: StoreKey, value: unknown): void {
+    const recordKey = this.recordKey(key);
+    this.records.set(recordKey, value);
+    if (!this.db) return;
+    // Read-write transactions on the same store run in the order they were created, so writes can't overtake each other
+    this.transact([this.RECORDS_STORE], 'readwrite', tx => tx.objectStore(this.RECORDS_STORE).put(value, recordKey))
+      .catch(e => this.report(e, 'corrupt', `Failed to save ${key}:`));
+  }
+
+  /**
+   * Writes several records in one transaction, so they land together or not at all. An undefined
+   * value deletes the record. Rejects if the write fails.
+   */
+  async setMany(records: Partial<Record<StoreKey, unknown>>): Promise<void> {
+    const entries = (Object.entries(records) as [StoreKey, unknown][]).map(([key, value]) => [this.recordKey(key), value] as const);
+    if (this.db) {
+      await this.transact([this.RECORDS_STORE], 'readwrite', tx => {
+        const store = tx.objectStore(this.RECORDS_STORE);
+        entries.forEach(([key, value]) => value === undefined ? store.delete(key) : store.put(value, key));
+      });
+    }
+    entries.forEach(([key, value]) => value === undefined ? this.records.delete(key) : this.records.set(key, value));
+  }
+
+  /** Runs `load` whenever another profile is switched to, so the caller can re-read its records. */
+  onProfileSwitch(load: () => void): void {
+    this.profileLoaders.push(load);
+  }
+
+  switchProfile(id: string): void {
+    if (id === this.activeProfileId() || !this.profileList().some(p => p.id === id)) return;
+    this.activeProfileId.set(id);
+    this.saveProfiles();
+    this.profileLoaders.forEach(load => load());
+  }
+
+  createProfile(name: string, avatar: string): Profile {
+    const profile: Profile = { id: crypto.randomUUID(), name: name.trim(), avatar, createdAt: new Date().toISOString() };
+    this.profileList.update(profiles => [...profiles, profile]);
+    this.saveProfiles();
+    return profile;
+  }
+
+  updateProfile(id: string, changes: Pick<Profile, 'name' | 'avatar'>): void {
+    this.profileList.update(profiles => profiles.map(p => p.id === id ? { ...p, name: changes.name.trim(), avatar: changes.avatar } : p));
+    this.saveProfiles();
+  }
+
+  /** Removes a profile and everything saved for it. The last remaining profile can't be deleted. */
+  deleteProfile(id: string): void {
+    const remaining = this.profileList().filter(p => p.id !== id);
+    if (!remaining.length) return;
+
+    const prefix = `${id}/`;
+    [...this.records.keys()].filter(key => key.startsWith(prefix)).forEach(key => this.records.delete(key));
+    if (this.db) {
+      this.transact([this.RECORDS_STORE], 'readwrite', tx => tx.objectStore(this.RECORDS_STORE).delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))
+        .catch(e => this.report(e, 'corrupt', 'Failed to delete profile data:'));
+    }
+
+    this.profileList.set(remaining);
+    if (this.activeProfileId() === id) {
+      this.activeProfileId.set(null);
+      this.switchProfile(remaining[0].id);
+    } else {
+      this.saveProfiles();
+    }
+  }
+
+  dismissIssue(): void {
+    this.issueState.set(null);
+  }
+
+  private recordKey(key: StoreKey, profileId = this.activeProfileId()): string {
+    return `${profileId}/${key}`;
+  }
+
+  private addFirstProfile(): Profile {
+    const profile: Profile = { id: crypto.randomUUID(), name: 'Learner', avatar: PROFILE_AVATARS[0], createdAt: new Date().toISOString() };
+    this.profileList.set([profile]);
+    this.activeProfileId.set(profile.id);
+    return profile;
+  }
+
+  private migrateProfile(profileId: string, fromVersion: number): void {
+    const prefix = `${profileId}/`;
+    const profileRecords = new Map<StoreKey, unknown>();
+    for (const [key, value] of this.records) {
+      if (key.startsWith(prefix)) profileRecords.set(key.slice(prefix.length) as StoreKey, value);
+    }
+
+    for (const migration of MIGRATIONS.filter(m => m.version > fromVersion)) {
+      migration.migrate(profileRecords, (key, reason) =>
+        this.report(new Error(`Skipped ${key}: ${reason}`), 'corrupt', `Migration ${migration.version} (${migration.description}):`));
+    }
+
+    [...this.records.keys()].filter(key => key.startsWith(prefix)).forEach(key => this.records.delete(key));
+    profileRecords.forEach((value, key) => this.records.set(this.recordKey(key, profileId), value));
+  }
+
+  private saveProfiles(): void {
+    if (!this.db) return;
+    this.transact([this.META_STORE], 'readwrite', tx => {
+      const meta = tx.objectStore(this.META_STORE);
+      meta.put(this.profileList(), this.PROFILES_KEY);
+      meta.put(this.activeProfileId(), this.LAST_PROFILE_KEY);
+    }).catch(e => this.report(e, 'corrupt', 'Failed to save profiles:'));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.RECORDS_STORE)) db.createObjectStore(this.RECORDS_STORE);
+        if (!db.objectStoreNames.contains(this.META_STORE)) db.createObjectStore(this.META_STORE);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab running a newer version needs us out of the way to upgrade
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is held open by an older version of the app in another tab.'));
+    });
+  }
+
+  private async readAll(): Promise<{ records: Map<string, unknown>; version: number; profiles: Profile[] | undefined; lastProfileId: string | null }> {
+    const records = new Map<string, unknown>();
+    const meta = new Map<string, any>();
+    await this.transact([this.RECORDS_STORE, this.META_STORE], 'readonly', tx => {
+      for (const [storeName, target] of [[this.RECORDS_STORE, records], [this.META_STORE, meta]] as const) {
+        const cursorRequest = tx.objectStore(storeName).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            target.set(cursor.key as string, cursor.value);
+            cursor.continue();
+          }
+        };
+      }
+    });
+    return {
+      records,
+      version: meta.get(this.SCHEMA_VERSION_KEY) ?? 0,
+      profiles: meta.get(this.PROFILES_KEY),
+      lastProfileId: meta.get(this.LAST_PROFILE_KEY) ?? null,
+    };
+  }
+
+  /** Replaces every record and stamps the latest schema version and the profiles, in one transaction. */
+  private writeAll(): Promise<void> {
+    return this.transact([this.RECORDS_STORE, this.META_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(this.RECORDS_STORE);
+      store.clear();
+      this.records.forEach((value, key) => store.put(value, key));
+      const meta = tx.objectStore(this.META_STORE);
+      meta.put(LATEST_SCHEMA_VERSION, this.SCHEMA_VERSION_KEY);
+      meta.put(this.profileList(), this.PROFILES_KEY);
+      meta.put(this.activeProfileId(), this.LAST_PROFILE_KEY);
+    });
+  }
+
+  /** Runs `work` in a new transaction and settles once it commits or aborts. */
+  private transact(stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction(stores, mode);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error('The transaction was aborted.'));
+      work(tx);
+    });
+  }
+
+  private report(error: unknown, kind: StorageIssueKind, context: string): void {
+    console.error(context, error);
+    // Running out of space can surface from any request
+    const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+    const issueKind = name === 'QuotaExceededError' ? 'quota' : kind;
+    this.issueState.set({ kind: issueKind, detail: error instanceof Error ? error.message : String(error) });
+  }
+}
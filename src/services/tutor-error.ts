@@ -0,0 +1,63 @@
+export type TutorErrorKind = 'rate-limit' | 'quota' | 'auth' | 'network' | 'timeout' | 'cancelled' | 'parse' | 'unknown';
+
+/** Thrown by `GeminiService` when a tutor request fails for good (after any retries). */
+export class TutorServiceError extends Error {
+  constructor(readonly kind: TutorErrorKind, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'TutorServiceError';
+  }
+}
+
+/** Learner-facing explanation for each kind of failure. */
+export const TUTOR_ERROR_MESSAGES: Record<TutorErrorKind, string> = {
+  'rate-limit': 'The tutor is receiving too many requests right now. Wait a moment, then try again.',
+  'quota': "You've reached today's usage cap. Raise it under Usage on the home screen, or come back tomorrow.",
+  'auth': 'The AI provider rejected the request. Check your API key and provider settings.',
+  'network': "Couldn't reach the AI provider. Check your internet connection or server URL.",
+  'timeout': 'The tutor took too long to reply. Try again.',
+  'cancelled': 'The request was cancelled.',
+  'parse': "The tutor's reply couldn't be understood. Try again.",
+  'unknown': 'Something went wrong while talking to the tutor. Try again.',
+};
+
+export function classifyError(error: unknown): TutorErrorKind {
+  if (error instanceof TutorServiceError) {
+    return error.kind;
+  }
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'timeout';
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'cancelled';
+  }
+  if (!(error instanceof Error) || !error.message) {
+    return 'unknown';
+  }
+
+  const message = error.message;
+  let code: number | undefined;
+  let status: string | undefined;
+  try {
+    const errorDetails = JSON.parse(message);
+    code = errorDetails?.error?.code;
+    status = errorDetails?.error?.status;
+  } catch (e) {
+    // Not a JSON string, fall back to string matching
+  }
+  const lower = message.toLowerCase();
+
+  if (code === 429 || status === 'RESOURCE_EXHAUSTED' || message.includes('429') || lower.includes('resource_exhausted')) {
+    return 'rate-limit';
+  }
+  if (code === 401 || code === 403 || status === 'UNAUTHENTICATED' || status === 'PERMISSION_DENIED'
+      || /\((401|403)\)/.test(message) || lower.includes('api key') || lower.includes('not initialized')) {
+    return 'auth';
+  }
+  if (error.name === 'TypeError' && (lower.includes('fetch') || lower.includes('network'))) {
+    return 'network';
+  }
+  if (message.includes('JSON')) {
+    return 'parse';
+  }
+  return 'unknown';
+}
@@ -0,0 +1,105 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { LlmUsage } from './llm-provider';
+import { StorageService } from './storage.service';
+
+export interface DailyUsage {
+  date: string; // ISO Date String (YYYY-MM-DD)
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+/** Daily limits set by the learner; 0 means no limit. */
+export interface UsageCaps {
+  requests: number;
+  tokens: number;
+}
+
+export type UsageCapState = 'ok' | 'near' | 'reached';
+
+/**
+ * Counts every request made to the model (retries and repair attempts included) and the tokens
+ * the backend reports for it, per day, so learners can keep an eye on their own quota.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class UsageService {
+  private storage = inject(StorageService);
+
+  private readonly daysToKeep = 30;
+  // Optional extras such as the session review are skipped from this fraction of a cap onwards
+  private readonly nearCapRatio = 0.8;
+
+  private history = signal<DailyUsage[]>([]);
+  private caps = signal<UsageCaps>({ requests: 0, tokens: 0 });
+
+  constructor() {
+    this.loadFromStorage();
+    this.storage.onProfileSwitch(() => this.loadFromStorage());
+  }
+
+  setCaps(caps: UsageCaps): void {
+    this.caps.set(caps);
+  }
+
+  getCaps(): UsageCaps {
+    return this.caps();
+  }
+
+  todayUsage(): DailyUsage {
+    const today = this.today();
+    return this.history().find(day => day.date === today) ?? { date: today, requests: 0, promptTokens: 0, outputTokens: 0 };
+  }
+
+  /** The most recent `days` days, oldest first, with zero entries for days without any usage. */
+  recentUsage(days = 7): DailyUsage[] {
+    const byDate = new Map(this.history().map(day => [day.date, day]));
+    return Array.from({ length: days }, (_, i) => {
+      const date = new Date();
+      date.setUTCDate(date.getUTCDate() - (days - 1 - i)); // UTC days, like today()
+      const key = date.toISOString().split('T')[0];
+      return byDate.get(key) ?? { date: key, requests: 0, promptTokens: 0, outputTokens: 0 };
+    });
+  }
+
+  capState(): UsageCapState {
+    const { requests, tokens } = this.caps();
+    const usage = this.todayUsage();
+    const ratios = [
+      requests > 0 ? usage.requests / requests : 0,
+      tokens > 0 ? (usage.promptTokens + usage.outputTokens) / tokens : 0,
+    ];
+    const highest = Math.max(...ratios);
+    if (highest >= 1) return 'reached';
+    if (highest >= this.nearCapRatio) return 'near';
+    return 'ok';
+  }
+
+  /** Records one request. `usage` is missing when the request failed or the backend didn't report it. */
+  record(usage?: LlmUsage): void {
+    const current = this.todayUsage();
+    const updated: DailyUsage = {
+      ...current,
+      requests: current.requests + 1,
+      promptTokens: current.promptTokens + (usage?.promptTokens ?? 0),
+      outputTokens: current.outputTokens + (usage?.outputTokens ?? 0),
+    };
+    this.history.update(days => [...days.filter(day => day.date !== updated.date), updated]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-this.daysToKeep));
+    this.saveToStorage();
+  }
+
+  private today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private loadFromStorage(): void {
+    this.history.set(this.storage.get<DailyUsage[]>('usage') ?? []);
+  }
+
+  private saveToStorage(): void {
+    this.storage.set('usage', this.history());
+  }
+}
@@ -0,0 +1,248 @@
+import { CEFR_LEVELS, PARTS_OF_SPEECH, VocabularyBankItem, VocabularyItem } from './gemini.service';
+import { createBankItem, migrateBankItem } from './srs';
+import { isSameWord } from './vocabulary.service';
+
+// Moving the vocabulary bank in and out of the app as CSV, TSV or an Anki text import.
+
+export type ExportFormat = 'csv' | 'tsv' | 'anki';
+
+/** Bank fields that can be read from an imported column. Only `word` and `translation` are required. */
+export type ImportField = 'word' | 'translation' | 'example' | 'lemma' | 'partOfSpeech' | 'gender' | 'cefrLevel' | 'tags' | 'deck'
+  | 'srsLevel' | 'nextReviewDate' | 'ease' | 'stability' | 'lapses' | 'lastReviewDate';
+
+/** Column index for each field; fields left out are not imported. */
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+export interface ParsedTable {
+  rows: string[][];
+  /** True when the first row looks like column names rather than a word. */
+  hasHeader: boolean;
+}
+
+export interface ImportPreviewRow {
+  /** 1-based row in the file (header included), for the preview table. */
+  line: number;
+  item: VocabularyBankItem | null;
+  status: 'new' | 'duplicate' | 'invalid';
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'word', 'translation', 'example', 'lemma', 'partOfSpeech', 'gender', 'cefrLevel', 'tags', 'deck',
+  'srsLevel', 'nextReviewDate', 'ease', 'stability', 'lapses', 'lastReviewDate',
+];
+
+// Header names other apps commonly use, so a plain "French,English" sheet maps itself
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  word: ['word', 'french', 'front', 'term', 'mot'],
+  translation: ['translation', 'english', 'back', 'meaning', 'definition', 'traduction'],
+  example: ['example', 'sentence', 'context', 'exemple'],
+  lemma: ['lemma', 'headword', 'lemme'],
+  partOfSpeech: ['partofspeech', 'pos', 'wordclass'],
+  gender: ['gender', 'genre'],
+  cefrLevel: ['cefrlevel', 'cefr', 'level'],
+  tags: ['tags'],
+  deck: ['deck'],
+  srsLevel: ['srslevel'],
+  nextReviewDate: ['nextreviewdate', 'due'],
+  ease: ['ease'],
+  stability: ['stability', 'interval'],
+  lapses: ['lapses'],
+  lastReviewDate: ['lastreviewdate'],
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Serialises the bank. CSV and TSV keep every field, so a re-import resumes where it left off. */
+export function exportVocabulary(items: VocabularyBankItem[], format: ExportFormat): string {
+  if (format === 'anki') {
+    return exportAnki(items);
+  }
+  const delimiter = format === 'csv' ? ',' : '\t';
+  const rows = items.map(item => [
+    item.word, item.translation, item.example, item.lemma ?? '', item.partOfSpeech ?? '', item.gender ?? '', item.cefrLevel ?? '',
+    item.tags.join(' '), item.deck ?? '', String(item.srsLevel), item.nextReviewDate,
+    String(item.ease), String(item.stability), String(item.lapses), item.lastReviewDate ?? '',
+  ]);
+  return [IMPORT_FIELDS, ...rows].map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter)).join('\n') + '\n';
+}
+
+/**
+ * Anki's "Notes in Plain Text" import: the word on the front, translation and example on the back.
+ * Anki can't import review state from text, so the level and due date travel as tags.
+ */
+function exportAnki(items: VocabularyBankItem[]): string {
+  const header = ['#separator:tab', '#html:true', '#notetype:Basic', '#tags column:3'];
+  const rows = items.map(item => {
+    const back = item.example ? `${escapeHtml(item.translation)}<br><i>${escapeHtml(item.example)}</i>` : escapeHtml(item.translation);
+    // Anki tags can't contain spaces, and "::" nests them, which suits decks
+    const tags = [
+      'french-companion', `srs-level-${item.srsLevel}`, `due-${item.nextReviewDate}`,
+      ...item.tags, ...(item.deck ? [`deck::${item.deck}`] : []),
+    ].map(tag => tag.replace(/\s+/g, '_')).join(' ');
+    return [escapeHtml(item.word), back, tags].map(cell => quoteCell(cell, '\t')).join('\t');
+  });
+  return [...header, ...rows].join('\n') + '\n';
+}
+
+/** Parses CSV or TSV text (quoted cells included), skipping Anki `#directive` lines at the top. */
+export function parseDelimited(text: string): ParsedTable {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let tagsColumn: number | null = null;
+  while (lines.length && lines[0].startsWith('#')) {
+    const directive = /^#tags column:(\d+)/.exec(lines.shift()!);
+    if (directive) {
+      tagsColumn = Number(directive[1]) - 1;
+    }
+  }
+  const body = lines.join('\n');
+  const delimiter = detectDelimiter(lines[0] ?? '');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (inQuotes) {
+      if (char === '"' && body[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  // Anki tags aren't bank fields, and would otherwise be guessed as the example column
+  const nonEmpty = rows
+    .map(r => tagsColumn === null ? r : r.filter((_, i) => i !== tagsColumn))
+    .filter(r => r.some(c => c.trim() !== ''));
+  return { rows: nonEmpty, hasHeader: nonEmpty.length > 0 && looksLikeHeader(nonEmpty[0]) };
+}
+
+/** Best guess at which column holds which field, from the header if there is one. */
+export function guessMapping(table: ParsedTable): ImportMapping {
+  if (!table.hasHeader) {
+    return { word: 0, translation: 1, ...(columnCount(table) > 2 ? { example: 2 } : {}) };
+  }
+  const mapping: ImportMapping = {};
+  table.rows[0].forEach((name, index) => {
+    const field = fieldForHeader(name);
+    if (field && mapping[field] === undefined) {
+      mapping[field] = index;
+    }
+  });
+  return mapping;
+}
+
+export function columnCount(table: ParsedTable): number {
+  return Math.max(0, ...table.rows.map(row => row.length));
+}
+
+/**
+ * Turns the mapped rows into bank items and flags the ones that can't be added: rows without a word
+ * or translation, and words already in the bank or earlier in the file (matched on word or lemma).
+ */
+export function buildImportPreview(table: ParsedTable, mapping: ImportMapping, existing: VocabularyItem[]): ImportPreviewRow[] {
+  const seen = [...existing];
+  const offset = table.hasHeader ? 1 : 0;
+
+  return table.rows.slice(offset).map((row, i) => {
+    const line = i + offset + 1;
+    const read = (field: ImportField) => mapping[field] === undefined ? '' : (row[mapping[field]!] ?? '').trim();
+    // An Anki back field holds "translation<br>example" when no separate example column exists
+    const [back, backExample = ''] = mapping.example === undefined ? read('translation').split(/<br\s*\/?>/i) : [read('translation')];
+    const word = stripHtml(read('word'));
+    const translation = stripHtml(back);
+    if (!word || !translation) {
+      return { line, item: null, status: 'invalid' };
+    }
+
+    const item = toBankItem(word, translation, stripHtml(read('example') || backExample), read);
+    if (seen.some(other => isSameWord(other, item))) {
+      return { line, item, status: 'duplicate' };
+    }
+    seen.push(item);
+    return { line, item, status: 'new' };
+  });
+}
+
+function toBankItem(word: string, translation: string, example: string, read: (field: ImportField) => string): VocabularyBankItem {
+  const fresh = createBankItem({ word, translation, example });
+  const number = (field: ImportField) => {
+    const value = Number(read(field));
+    return read(field) !== '' && Number.isFinite(value) ? value : undefined;
+  };
+  const date = (field: ImportField) => ISO_DATE.test(read(field)) ? read(field) : undefined;
+  const oneOf = <T extends string>(field: ImportField, values: readonly T[]) =>
+    values.find(value => value.toLowerCase() === read(field).toLowerCase());
+  const lemma = stripHtml(read('lemma'));
+
+  // Scheduling columns are optional; anything missing or malformed falls back to a new word
+  return migrateBankItem({
+    ...fresh,
+    ...(lemma ? { lemma } : {}),
+    partOfSpeech: oneOf('partOfSpeech', PARTS_OF_SPEECH),
+    gender: oneOf('gender', ['masculine', 'feminine'] as const),
+    cefrLevel: oneOf('cefrLevel', CEFR_LEVELS),
+    tags: read('tags').split(/[\s,;]+/).map(tag => tag.toLowerCase()).filter(Boolean),
+    deck: read('deck') || null,
+    srsLevel: number('srsLevel') ?? fresh.srsLevel,
+    nextReviewDate: date('nextReviewDate') ?? fresh.nextReviewDate,
+    ease: number('ease') ?? fresh.ease,
+    stability: number('stability') ?? fresh.stability,
+    lapses: number('lapses') ?? fresh.lapses,
+    lastReviewDate: date('lastReviewDate') ?? null,
+  });
+}
+
+function detectDelimiter(firstLine: string): string {
+  if (firstLine.includes('\t')) return '\t';
+  const semicolons = firstLine.split(';').length;
+  const commas = firstLine.split(',').length;
+  return semicolons > commas ? ';' : ',';
+}
+
+function looksLikeHeader(row: string[]): boolean {
+  return row.some(cell => fieldForHeader(cell) !== null);
+}
+
+function fieldForHeader(name: string): ImportField | null {
+  const key = name.trim().toLowerCase().replace(/[\s_-]/g, '');
+  return IMPORT_FIELDS.find(field => FIELD_ALIASES[field].includes(key)) ?? null;
+}
+
+function quoteCell(value: string, delimiter: string): string {
+  return /["\n\r]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function stripHtml(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
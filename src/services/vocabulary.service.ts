@@ -0,0 +1,147 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { RecallGrade, VocabularyBankItem, VocabularyItem } from './gemini.service';
+import { createBankItem, scheduleReview } from './srs';
+import { StorageService } from './storage.service';
+
+/**
+ * Whether two entries are the same word for the bank. Inflected forms share a lemma
+ * ("belle" and "beau"), and words saved before lemmas existed still match on the word itself.
+ */
+export function isSameWord(a: VocabularyItem, b: VocabularyItem): boolean {
+  const forms = (item: VocabularyItem) => [item.word, item.lemma].filter(Boolean).map(form => form!.toLowerCase());
+  const formsOfB = forms(b);
+  return forms(a).some(form => formsOfB.includes(form));
+}
+
+const LEADING_ARTICLE = /^(le|la|les|l'|un|une|des|du|de la|de l'|se|s')\s*/i;
+
+/**
+ * The words from `candidates` that appear in `text`, as saved, as their lemma, or without their article.
+ * Matching is case-insensitive but accent-sensitive, so only correctly spelled uses count.
+ */
+export function findUsedWords<T extends VocabularyItem>(text: string, candidates: T[]): T[] {
+  const normalized = text.replace(/[’`]/g, "'");
+  return candidates.filter(item => {
+    const forms = [item.word, item.lemma ?? ''].flatMap(form => [form.trim(), form.trim().replace(LEADING_ARTICLE, '')]);
+    return forms.some(form => form.length > 1 && new RegExp(`(?<!\\p{L})${escapeRegExp(form)}(?!\\p{L})`, 'iu').test(normalized));
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The learner's saved words and their review schedule, shared by the chat and review sessions. */
+@Injectable({
+  providedIn: 'root',
+})
+export class VocabularyService {
+  private storage = inject(StorageService);
+
+  private bank = signal<VocabularyBankItem[]>([]);
+  private deckNames = signal<string[]>([]);
+
+  readonly words = this.bank.asReadonly();
+  readonly decks = this.deckNames.asReadonly();
+
+  readonly wordsDueForReview = computed(() => {
+    const now = new Date();
+    now.setHours(0, 0, 0, 0); // Compare dates only, not times
+    return this.bank().filter(item => new Date(item.nextReviewDate) <= now)
+                      .sort((a, b) => new Date(a.nextReviewDate).getTime() - new Date(b.nextReviewDate).getTime());
+  });
+
+  readonly otherWords = computed(() => {
+    const dueWordsSet = new Set(this.wordsDueForReview());
+    return this.bank().filter(item => !dueWordsSet.has(item))
+                      .sort((a, b) => a.word.localeCompare(b.word));
+  });
+
+  /** Every tag used in the bank, alphabetically. */
+  readonly tags = computed(() => [...new Set(this.bank().flatMap(item => item.tags))].sort((a, b) => a.localeCompare(b)));
+
+  constructor() {
+    this.loadFromStorage();
+    this.storage.onProfileSwitch(() => this.loadFromStorage());
+  }
+
+  isInBank(word: VocabularyItem): boolean {
+    return this.bank().some(item => isSameWord(item, word));
+  }
+
+  /** Saves `word` for review. Returns false if it (or another form of it) was already in the bank. */
+  addWord(word: VocabularyItem): boolean {
+    if (this.isInBank(word)) {
+      return false;
+    }
+    this.bank.update(current => [...current, createBankItem(word)]);
+    this.saveToStorage();
+    return true;
+  }
+
+  /** Adds imported items, skipping any word already in the bank. Returns how many were added. */
+  importWords(items: VocabularyBankItem[]): number {
+    const added: VocabularyBankItem[] = [];
+    for (const item of items) {
+      if (!this.isInBank(item) && !added.some(other => isSameWord(other, item))) {
+        added.push(item);
+      }
+    }
+    if (added.length) {
+      // Decks named in the file become user decks so they can be filtered on
+      for (const deck of new Set(added.map(item => item.deck))) {
+        if (deck) this.createDeck(deck);
+      }
+      this.bank.update(current => [...current, ...added]);
+      this.saveToStorage();
+    }
+    return added.length;
+  }
+
+  review(word: VocabularyBankItem, grade: RecallGrade): void {
+    this.updateItem(word, item => scheduleReview(item, grade));
+  }
+
+  setTags(word: VocabularyBankItem, tags: string[]): void {
+    const cleaned = [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+    this.updateItem(word, item => ({ ...item, tags: cleaned }));
+  }
+
+  moveToDeck(word: VocabularyBankItem, deck: string | null): void {
+    this.updateItem(word, item => ({ ...item, deck }));
+  }
+
+  /** Adds a deck. Returns false if the name is empty or already taken. */
+  createDeck(name: string): boolean {
+    const trimmed = name.trim();
+    if (!trimmed || this.deckNames().some(deck => deck.toLowerCase() === trimmed.toLowerCase())) {
+      return false;
+    }
+    this.deckNames.update(decks => [...decks, trimmed].sort((a, b) => a.localeCompare(b)));
+    this.saveToStorage();
+    return true;
+  }
+
+  /** Removes a deck; its words stay in the bank without one. */
+  deleteDeck(name: string): void {
+    this.deckNames.update(decks => decks.filter(deck => deck !== name));
+    this.bank.update(current => current.map(item => item.deck === name ? { ...item, deck: null } : item));
+    this.saveToStorage();
+  }
+
+  private updateItem(word: VocabularyBankItem, change: (item: VocabularyBankItem) => VocabularyBankItem): void {
+    this.bank.update(current => current.map(item =>
+      item.word.toLowerCase() === word.word.toLowerCase() ? change(item) : item));
+    this.saveToStorage();
+  }
+
+  private loadFromStorage(): void {
+    this.deckNames.set(this.storage.get<string[]>('vocab-decks') ?? []);
+    this.bank.set(this.storage.get<VocabularyBankItem[]>('vocab-bank') ?? []);
+  }
+
+  private saveToStorage(): void {
+    this.storage.set('vocab-bank', this.bank());
+    this.storage.set('vocab-decks', this.deckNames());
+  }
+}
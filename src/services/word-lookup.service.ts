@@ -0,0 +1,95 @@
+import { Injectable, inject } from '@angular/core';
+import { GeminiService, VocabularyItem } from './gemini.service';
+import { StorageService } from './storage.service';
+
+/** A piece of a tutor message: either a tappable word or the text between words. */
+export interface TextToken {
+  text: string;
+  isWord: boolean;
+}
+
+// Letters with optional internal apostrophes or hyphens, so "aujourd'hui" and "week-end" stay whole
+const WORD_PATTERN = /\p{L}+(?:['’-]\p{L}+)*/gu;
+
+export function tokenizeText(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (match.index! > last) {
+      tokens.push({ text: text.slice(last, match.index), isWord: false });
+    }
+    tokens.push({ text: match[0], isWord: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) {
+    tokens.push({ text: text.slice(last), isWord: false });
+  }
+  return tokens;
+}
+
+/**
+ * Dictionary entries for words tapped in tutor messages. Entries are saved by word form, so looking the same word up again is instant and costs no request.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WordLookupService {
+  private geminiService = inject(GeminiService);
+  private storage = inject(StorageService);
+
+  private readonly maxCachedEntries = 500;
+
+  private cache = new Map<string, VocabularyItem>();
+  private pending = new Map<string, Promise<VocabularyItem>>();
+
+  constructor() {
+    this.loadFromStorage();
+    this.storage.onProfileSwitch(() => this.loadFromStorage());
+  }
+
+  cached(word: string): VocabularyItem | null {
+    return this.cache.get(this.key(word)) ?? null;
+  }
+
+  /** Looks `word` up in the context of `sentence`, sharing a request if one is already in flight. */
+  lookup(word: string, sentence: string): Promise<VocabularyItem> {
+    const key = this.key(word);
+    const hit = this.cache.get(key);
+    if (hit) {
+      return Promise.resolve(hit);
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.geminiService.lookupWord(word, sentence)
+        .then(entry => {
+          this.remember(key, entry);
+          return entry;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  private remember(key: string, entry: VocabularyItem): void {
+    this.cache.set(key, entry);
+    // Maps iterate in insertion order, so the first keys are the oldest lookups
+    while (this.cache.size > this.maxCachedEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.saveToStorage();
+  }
+
+  private key(word: string): string {
+    return word.toLowerCase().replace(/’/g, "'");
+  }
+
+  private loadFromStorage(): void {
+    this.cache = new Map(this.storage.get<[string, VocabularyItem][]>('word-lookups') ?? []);
+  }
+
+  private saveToStorage(): void {
+    this.storage.set('word-lookups', [...this.cache]);
+  }
+}